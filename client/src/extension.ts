@@ -11,6 +11,7 @@ import * as path from "path";
 import {
   languages,
   window,
+  workspace,
   commands,
   ExtensionContext,
   ColorInformation,
@@ -22,6 +23,10 @@ import {
   CompletionItemKind,
   TextEdit,
   SnippetString,
+  EventEmitter,
+  Uri,
+  ViewColumn,
+  TextDocumentContentProvider,
 } from "vscode";
 import {
   DocumentColorRequest,
@@ -34,7 +39,12 @@ import {
 } from "vscode-languageclient";
 
 import { ConfigurationFeature } from "vscode-languageclient/lib/configuration";
-import { ColorPresentationParams } from "vscode-languageserver-protocol";
+import { SemanticTokensFeature } from "vscode-languageclient/lib/semanticTokens.proposed";
+import {
+  ColorPresentationParams,
+  Position as ProtocolPosition,
+  WorkspaceEdit as ProtocolWorkspaceEdit,
+} from "vscode-languageserver-protocol";
 
 import * as nls from "vscode-nls";
 const localize = nls.loadMessageBundle();
@@ -65,7 +75,19 @@ export function activate(context: ExtensionContext) {
   const clientOptions: LanguageClientOptions = {
     documentSelector,
     synchronize: {
-      configurationSection: "css",
+      configurationSection: ["styledJsx", "css"],
+      fileEvents: [
+        // the dialect of the templates is read from the babel config
+        workspace.createFileSystemWatcher(
+          "**/{babel.config.js,babel.config.json,.babelrc,.babelrc.js,.babelrc.json,package.json,tsconfig.json,jsconfig.json}"
+        ),
+        // stylelint reads its own config
+        workspace.createFileSystemWatcher(
+          "**/{.stylelintrc,.stylelintrc.json,.stylelintrc.yaml,.stylelintrc.yml,.stylelintrc.js,stylelint.config.js}"
+        ),
+        // the global styles of every file are indexed
+        workspace.createFileSystemWatcher("**/*.{js,jsx,ts,tsx}"),
+      ],
     },
     initializationOptions: {},
   };
@@ -78,6 +100,10 @@ export function activate(context: ExtensionContext) {
     clientOptions
   );
   client.registerFeature(new ConfigurationFeature(client));
+  // the CSS of templates is highlighted by the server on versions of VS Code that can show it
+  if (typeof languages.registerDocumentSemanticTokensProvider === "function") {
+    client.registerFeature(new SemanticTokensFeature(client));
+  }
 
   const disposable = client.start();
   // Push the disposable to the context's subscriptions so that the
@@ -85,7 +111,16 @@ export function activate(context: ExtensionContext) {
   context.subscriptions.push(disposable);
 
   client.onReady().then((_) => {
-    client.code2ProtocolConverter.asPosition(window.activeTextEditor!.selection.active);
+    // the server validates the document in the active editor first
+    const sendActiveDocument = () => {
+      const editor = window.activeTextEditor;
+      client.sendNotification("styledJsx/activeDocument", {
+        uri: editor ? client.code2ProtocolConverter.asUri(editor.document.uri) : undefined,
+      });
+    };
+    sendActiveDocument();
+    context.subscriptions.push(window.onDidChangeActiveTextEditor(sendActiveDocument));
+
     // register color provider
     context.subscriptions.push(
       languages.registerColorProvider(documentSelector, {
@@ -157,6 +192,113 @@ export function activate(context: ExtensionContext) {
     },
   });
 
+  // Read-only documents with what the server made of the file in the active editor
+  const previewScheme = "styled-jsx";
+  const previews: { [uri: string]: string } = {};
+  const previewChanged = new EventEmitter<Uri>();
+  const previewProvider: TextDocumentContentProvider = {
+    onDidChange: previewChanged.event,
+    provideTextDocumentContent(uri) {
+      return previews[uri.toString()] || "";
+    },
+  };
+  context.subscriptions.push(
+    workspace.registerTextDocumentContentProvider(previewScheme, previewProvider)
+  );
+
+  function showPreview(method: string, suffix: string) {
+    const editor = window.activeTextEditor;
+    if (!editor || documentSelector.indexOf(editor.document.languageId) === -1) {
+      window.showInformationMessage("Open a JavaScript or TypeScript file to preview its styles.");
+      return;
+    }
+    const document = editor.document;
+    client
+      .onReady()
+      .then(() =>
+        client.sendRequest<string | null>(method, {
+          textDocument: client.code2ProtocolConverter.asTextDocumentIdentifier(document),
+        })
+      )
+      .then((text) => {
+        if (text === null) {
+          window.showInformationMessage("There is no styled-jsx in this file.");
+          return;
+        }
+        // the .css extension picks the language of the preview
+        const uri = document.uri.with({
+          scheme: previewScheme,
+          path: `${document.uri.path}.${suffix}.css`,
+        });
+        previews[uri.toString()] = text;
+        previewChanged.fire(uri);
+        workspace
+          .openTextDocument(uri)
+          .then((preview) =>
+            window.showTextDocument(preview, { viewColumn: ViewColumn.Beside, preview: true })
+          );
+      });
+  }
+
+  context.subscriptions.push(
+    commands.registerCommand("styledJsx.showExtractedCss", () =>
+      showPreview("styledJsx/extractedCss", "extracted")
+    ),
+    commands.registerCommand("styledJsx.showCompiledOutput", () =>
+      showPreview("styledJsx/compiledOutput", "compiled")
+    )
+  );
+
+  // the quick fix that converts an inline style asks for the class name of the new rule,
+  // after the problems of the rule are accepted
+  context.subscriptions.push(
+    commands.registerCommand(
+      "styledJsx.convertInlineStyle",
+      (uri: string, position: ProtocolPosition, warnings: string[] = []) => {
+        const accepted: Thenable<boolean> =
+          warnings.length > 0
+            ? window
+                .showWarningMessage(
+                  `The styled-jsx rule will have problems: ${warnings.join("; ")}`,
+                  "Convert"
+                )
+                .then((choice) => choice === "Convert")
+            : Promise.resolve(true);
+        accepted
+          .then((convert) =>
+            convert
+              ? window.showInputBox({
+                  prompt: "Class name of the styled-jsx rule",
+                  validateInput: (value) =>
+                    /^-?[_a-zA-Z][_a-zA-Z0-9-]*$/.test(value)
+                      ? null
+                      : `'${value}' is not a valid class name.`,
+                })
+              : undefined
+          )
+          .then((className) => {
+            if (!className) {
+              return;
+            }
+            client
+              .sendRequest<ProtocolWorkspaceEdit | null>("styledJsx/convertInlineStyle", {
+                textDocument: { uri },
+                position,
+                className,
+              })
+              .then(
+                (edit) => {
+                  if (edit) {
+                    workspace.applyEdit(client.protocol2CodeConverter.asWorkspaceEdit(edit));
+                  }
+                },
+                (error) => window.showErrorMessage(error.message)
+              );
+          });
+      }
+    )
+  );
+
   commands.registerCommand("styled.jsx.applyCodeAction", applyCodeAction);
   // FIXME: don't know how to correctly test this
   function applyCodeAction(uri: string, documentVersion: number, edits: TextEdit[]) {
@@ -0,0 +1,74 @@
+/* eslint-disable no-unused-vars */
+import { Stylesheet } from "vscode-css-languageservice";
+
+// The parser nodes are not part of the typings of vscode-css-languageservice,
+// these are the parts of them the server relies on.
+export enum NodeType {
+  Identifier = 1,
+  Ruleset = 3,
+  Selector = 4,
+  SimpleSelector = 5,
+  ClassSelector = 14,
+  IdentifierSelector = 15,
+  ElementNameSelector = 16,
+  PseudoSelector = 17,
+  AttributeSelector = 18,
+  Declaration = 19,
+  Declarations = 20,
+  Property = 21,
+  Term = 24,
+  StringLiteral = 27,
+  URILiteral = 28,
+  Function = 30,
+  NumericValue = 31,
+  HexColorValue = 32,
+  VariableName = 35,
+  VariableDeclaration = 36,
+  Prio = 37,
+  Keyframe = 51,
+  MediaQuery = 58,
+  CustomPropertyDeclaration = 65,
+}
+
+export interface CssNode {
+  readonly type: NodeType;
+  readonly offset: number;
+  readonly length: number;
+  readonly end: number;
+  readonly parent: CssNode | null;
+  getText(): string;
+  getChildren(): CssNode[];
+}
+
+export function asCssNode(stylesheet: Stylesheet): CssNode {
+  return stylesheet as CssNode;
+}
+
+// Calls back for every node in document order. Returning false skips the children of a node.
+export function walkCssNodes(node: CssNode, callback: (node: CssNode) => boolean | void): void {
+  if (callback(node) === false) {
+    return;
+  }
+  for (const child of node.getChildren()) {
+    walkCssNodes(child, callback);
+  }
+}
+
+// The innermost node of the given type that contains the offset
+export function findCssNodeAtOffset(
+  stylesheet: Stylesheet,
+  offset: number,
+  type: NodeType
+): CssNode | undefined {
+  let result: CssNode | undefined;
+  walkCssNodes(asCssNode(stylesheet), (node) => {
+    if (node.offset > offset || node.end < offset) {
+      return false;
+    }
+    if (node.type === type) {
+      result = node;
+    }
+    return true;
+  });
+  return result;
+}
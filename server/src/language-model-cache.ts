@@ -4,7 +4,7 @@
  *  Licensed under the MIT License. See License.txt in the project root for license information.
  *--------------------------------------------------------------------------------------------*/
 
-import { TextDocument } from "vscode-languageserver";
+import { TextDocument } from "vscode-languageserver-textdocument";
 
 export interface LanguageModelCache<T> {
   get(document: TextDocument): T;
@@ -40,6 +40,8 @@ export function getLanguageModelCache<T>(
         }
       }
     }, cleanupIntervalTimeInSec * 1000);
+    // the cache alone doesn't keep a script using it running
+    cleanupInterval.unref();
   }
 
   return {
@@ -0,0 +1,48 @@
+/* eslint-disable no-unused-vars */
+/*---------------------------------------------------------------------------------------------
+ *  Copyright (c) Microsoft Corporation. All rights reserved.
+ *  Licensed under the MIT License. See License.txt in the project root for license information.
+ *--------------------------------------------------------------------------------------------*/
+
+import { CancellationToken, ResponseError, ErrorCodes } from "vscode-languageserver";
+
+export function formatError(message: string, err: any): string {
+  if (err instanceof Error) {
+    const error = <Error>err;
+    return `${message}: ${error.message}\n${error.stack}`;
+  } else if (typeof err === "string") {
+    return `${message}: ${err}`;
+  } else if (err) {
+    return `${message}: ${err.toString()}`;
+  }
+  return message;
+}
+
+function cancelValue<E>(): ResponseError<E> {
+  return new ResponseError<E>(ErrorCodes.RequestCancelled, "Request cancelled");
+}
+
+// Runs a request handler once the messages queued before it are read, so that a
+// cancellation already sent by the client is seen, and turns errors into errorVal
+export function runSafe<T, E>(
+  func: () => T,
+  errorVal: T,
+  errorMessage: string,
+  token: CancellationToken
+): Thenable<T | ResponseError<E>> {
+  return new Promise<T | ResponseError<E>>((resolve) => {
+    setImmediate(() => {
+      if (token.isCancellationRequested) {
+        resolve(cancelValue());
+        return;
+      }
+      try {
+        const result = func();
+        resolve(token.isCancellationRequested ? cancelValue() : result);
+      } catch (e) {
+        console.error(formatError(errorMessage, e));
+        resolve(errorVal);
+      }
+    });
+  });
+}
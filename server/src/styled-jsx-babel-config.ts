@@ -0,0 +1,95 @@
+/* eslint-disable no-unused-vars */
+import * as fs from "fs";
+import * as path from "path";
+import { StyledJsxDialect } from "./styled-jsx-settings";
+
+// styled-jsx plugins that change the language of the templates
+const dialectPlugins: { [plugin: string]: StyledJsxDialect } = {
+  "styled-jsx-plugin-sass": "scss",
+  "styled-jsx-plugin-less": "less",
+};
+
+// in the order babel looks them up in a directory
+export const babelConfigFiles: string[] = [
+  "babel.config.js",
+  "babel.config.json",
+  ".babelrc",
+  ".babelrc.js",
+  ".babelrc.json",
+  "package.json",
+];
+
+// the nearest babel config per directory, null when none was found above it
+let configs: { [directory: string]: string | null } = {};
+
+function readFile(file: string): string | undefined {
+  try {
+    return fs.readFileSync(file, "utf8");
+  } catch (e) {
+    return undefined;
+  }
+}
+
+// The babel config of a directory as text, JavaScript configs are not evaluated
+function readBabelConfig(directory: string): string | undefined {
+  for (const name of babelConfigFiles) {
+    const text = readFile(path.join(directory, name));
+    if (text === undefined) {
+      continue;
+    }
+    if (name !== "package.json") {
+      return text;
+    }
+    try {
+      const babel = JSON.parse(text).babel;
+      if (babel) {
+        return JSON.stringify(babel);
+      }
+    } catch (e) {
+      // a broken package.json doesn't configure babel
+    }
+  }
+  return undefined;
+}
+
+function getConfigDialect(config: string): StyledJsxDialect {
+  for (const plugin of Object.keys(dialectPlugins)) {
+    if (config.indexOf(plugin) !== -1) {
+      return dialectPlugins[plugin];
+    }
+  }
+  return "css";
+}
+
+// the styled-jsx/babel option that turns the prefixing of stylis off
+const vendorPrefixesOffPattern = /["']?vendorPrefixes["']?\s*:\s*false/;
+
+function findDirectoryConfig(directory: string): string | null {
+  if (configs[directory] !== undefined) {
+    return configs[directory];
+  }
+
+  const parent = path.dirname(directory);
+  const config = readBabelConfig(directory);
+  const result =
+    config !== undefined ? config : parent !== directory ? findDirectoryConfig(parent) : null;
+  configs[directory] = result;
+  return result;
+}
+
+// The dialect set up by the styled-jsx plugins in the nearest babel config of a file
+export function findBabelConfigDialect(filePath: string): StyledJsxDialect | undefined {
+  const config = findDirectoryConfig(path.dirname(filePath));
+  return config !== null ? getConfigDialect(config) : undefined;
+}
+
+// Whether styled-jsx adds vendor prefixes, which it does unless the nearest babel config
+// of a file gives styled-jsx/babel vendorPrefixes: false
+export function findBabelConfigVendorPrefixes(filePath: string): boolean {
+  const config = findDirectoryConfig(path.dirname(filePath));
+  return config === null || !vendorPrefixesOffPattern.test(config);
+}
+
+export function clearBabelConfigCache(): void {
+  configs = {};
+}
@@ -0,0 +1,373 @@
+/* eslint-disable no-unused-vars */
+import * as ts from "typescript";
+import {
+  Position,
+  Range,
+  Location,
+  CompletionList,
+  CompletionItem,
+  CompletionItemKind,
+  TextEdit,
+} from "vscode-languageserver";
+import { TextDocument } from "vscode-languageserver-textdocument";
+import { StyledJsx, isInInterpolation } from "./styled-jsx-utils";
+import { asCssNode, walkCssNodes, findCssNodeAtOffset, NodeType } from "./css-nodes";
+import { GlobalStyle } from "./styled-jsx-workspace-index";
+
+// calls whose string arguments and object keys are class names
+const classNameHelpers: string[] = ["clsx", "classnames", "classNames", "cx"];
+
+export interface ClassNameUsage {
+  name: string;
+  start: number;
+  end: number;
+  // an unquoted object key in a clsx/classnames call
+  identifier: boolean;
+}
+
+// A class name that is completed by an interpolation, like `btn-${size}`
+export interface PartialClassName {
+  text: string;
+  start: number;
+  end: number;
+  openStart: boolean;
+  openEnd: boolean;
+}
+
+export interface ClassNameAttribute {
+  element: ts.JsxOpeningLikeElement;
+  start: number;
+  end: number;
+  usages: ClassNameUsage[];
+  partials: PartialClassName[];
+  // text ranges where class names are written literally
+  segments: { start: number; end: number }[];
+  // some class names are only known at runtime
+  dynamic: boolean;
+  // expressions that may hold whole class names, like a variable or a prop
+  expressions: ts.Node[];
+}
+
+export interface ClassSelector {
+  name: string;
+  start: number;
+  end: number;
+}
+
+function addSegment(
+  attribute: ClassNameAttribute,
+  text: string,
+  start: number,
+  end: number,
+  // whether the segment touches an interpolation on either side
+  openStart: boolean = false,
+  openEnd: boolean = false,
+  identifier: boolean = false
+): void {
+  attribute.segments.push({ start, end });
+  const pattern = /\S+/g;
+  let match: RegExpExecArray | null;
+  const value = text.slice(start, end);
+  while ((match = pattern.exec(value))) {
+    const usageStart = start + match.index;
+    const usageEnd = usageStart + match[0].length;
+    const partialStart = openStart && usageStart === start;
+    const partialEnd = openEnd && usageEnd === end;
+    if (partialStart || partialEnd) {
+      // `btn-${size}` only becomes a class name at runtime
+      attribute.dynamic = true;
+      attribute.partials.push({
+        text: match[0],
+        start: usageStart,
+        end: usageEnd,
+        openStart: partialStart,
+        openEnd: partialEnd,
+      });
+      continue;
+    }
+    attribute.usages.push({ name: match[0], start: usageStart, end: usageEnd, identifier });
+  }
+}
+
+function isClassNameHelper(typescript: typeof ts, expression: ts.CallExpression): boolean {
+  const callee = expression.expression;
+  return typescript.isIdentifier(callee) && classNameHelpers.indexOf(callee.text) !== -1;
+}
+
+function collectClassNames(
+  typescript: typeof ts,
+  attribute: ClassNameAttribute,
+  node: ts.Node,
+  // the value of an interpolation glued to the text of a class name, like size in `btn-${size}`
+  partOfName: boolean = false
+): void {
+  const text = node.getSourceFile().text;
+
+  if (typescript.isStringLiteral(node) || typescript.isNoSubstitutionTemplateLiteral(node)) {
+    addSegment(attribute, text, node.getStart() + 1, node.getEnd() - 1);
+  } else if (typescript.isTemplateExpression(node)) {
+    const head = node.head;
+    addSegment(attribute, text, head.getStart() + 1, head.getEnd() - 2, false, true);
+    for (const span of node.templateSpans) {
+      const literal = span.literal;
+      const isTail = typescript.isTemplateTail(literal);
+      // the characters before ${ and after }
+      const before = text.charAt(span.expression.getFullStart() - 3);
+      const after = text.charAt(literal.getStart() + 1);
+      const glued = /[^\s`]/.test(before) || /[^\s`]/.test(after);
+      addSegment(
+        attribute,
+        text,
+        literal.getStart() + 1,
+        literal.getEnd() - (isTail ? 1 : 2),
+        true,
+        !isTail
+      );
+      collectClassNames(typescript, attribute, span.expression, glued);
+    }
+  } else if (typescript.isJsxExpression(node) || typescript.isParenthesizedExpression(node)) {
+    if (node.expression) {
+      collectClassNames(typescript, attribute, node.expression, partOfName);
+    }
+  } else if (typescript.isConditionalExpression(node)) {
+    collectClassNames(typescript, attribute, node.whenTrue, partOfName);
+    collectClassNames(typescript, attribute, node.whenFalse, partOfName);
+  } else if (typescript.isBinaryExpression(node)) {
+    // the left side of `active && "active"` is the condition
+    if (node.operatorToken.kind === typescript.SyntaxKind.AmpersandAmpersandToken) {
+      collectClassNames(typescript, attribute, node.right, partOfName);
+    } else {
+      collectClassNames(typescript, attribute, node.left, partOfName);
+      collectClassNames(typescript, attribute, node.right, partOfName);
+    }
+  } else if (typescript.isCallExpression(node) && isClassNameHelper(typescript, node)) {
+    for (const argument of node.arguments) {
+      collectClassNames(typescript, attribute, argument);
+    }
+  } else if (typescript.isArrayLiteralExpression(node)) {
+    for (const element of node.elements) {
+      collectClassNames(typescript, attribute, element);
+    }
+  } else if (typescript.isObjectLiteralExpression(node)) {
+    // { active: isActive } toggles the class at runtime
+    for (const property of node.properties) {
+      const name = property.name;
+      if (name && (typescript.isIdentifier(name) || typescript.isStringLiteral(name))) {
+        const quoted = typescript.isStringLiteral(name) ? 1 : 0;
+        addSegment(
+          attribute,
+          text,
+          name.getStart() + quoted,
+          name.getEnd() - quoted,
+          false,
+          false,
+          !quoted
+        );
+      } else {
+        // computed keys and spreads
+        attribute.dynamic = true;
+        attribute.expressions.push(property);
+      }
+    }
+  } else if (!typescript.isJsxText(node)) {
+    // identifiers, member access, css.resolve results...
+    attribute.dynamic = true;
+    if (!partOfName) {
+      attribute.expressions.push(node);
+    }
+  }
+}
+
+export function findClassNameAttributes(
+  typescript: typeof ts,
+  sourceFile: ts.SourceFile
+): ClassNameAttribute[] {
+  const attributes: ClassNameAttribute[] = [];
+
+  const visit = (node: ts.Node) => {
+    if (
+      typescript.isJsxAttribute(node) &&
+      node.name.getText() === "className" &&
+      node.initializer
+    ) {
+      const attribute: ClassNameAttribute = {
+        element: node.parent.parent,
+        start: node.getStart(),
+        end: node.getEnd(),
+        usages: [],
+        partials: [],
+        segments: [],
+        dynamic: false,
+        expressions: [],
+      };
+      collectClassNames(typescript, attribute, node.initializer);
+      attributes.push(attribute);
+    }
+    typescript.forEachChild(node, visit);
+  };
+  visit(sourceFile);
+
+  return attributes;
+}
+
+export function findClassSelectors(styledJsx: StyledJsx): ClassSelector[] {
+  const selectors: ClassSelector[] = [];
+  walkCssNodes(asCssNode(styledJsx.stylesheet), (node) => {
+    // interpolated class names are placeholders
+    if (
+      node.type === NodeType.ClassSelector &&
+      !isInInterpolation(styledJsx.styledJsxTaggedTemplates, node.offset, node.end)
+    ) {
+      // the node text includes the leading dot
+      selectors.push({ name: node.getText().slice(1), start: node.offset + 1, end: node.end });
+    }
+  });
+  return selectors;
+}
+
+export function getClassNameUsageAt(
+  attributes: ClassNameAttribute[],
+  offset: number
+): ClassNameUsage | undefined {
+  for (const attribute of attributes) {
+    for (const usage of attribute.usages) {
+      if (usage.start <= offset && offset <= usage.end) {
+        return usage;
+      }
+    }
+  }
+  return undefined;
+}
+
+export function getClassSelectorAt(
+  styledJsx: StyledJsx,
+  offset: number
+): ClassSelector | undefined {
+  const node = findCssNodeAtOffset(styledJsx.stylesheet, offset, NodeType.ClassSelector);
+  if (node) {
+    return { name: node.getText().slice(1), start: node.offset + 1, end: node.end };
+  }
+  return undefined;
+}
+
+function toLocation(document: TextDocument, start: number, end: number): Location {
+  return Location.create(
+    document.uri,
+    Range.create(document.positionAt(start), document.positionAt(end))
+  );
+}
+
+export function doClassNameComplete(
+  typescript: typeof ts,
+  document: TextDocument,
+  styledJsx: StyledJsx,
+  position: Position,
+  // classes that other files emit globally
+  globalClasses: GlobalStyle[] = []
+): CompletionList | null {
+  const offset = document.offsetAt(position);
+  const text = document.getText();
+
+  for (const attribute of findClassNameAttributes(typescript, styledJsx.sourceFile)) {
+    const segment = attribute.segments.find((item) => item.start <= offset && offset <= item.end);
+    if (!segment) {
+      continue;
+    }
+
+    // the class name being typed is replaced as a whole
+    let start = offset;
+    let end = offset;
+    while (start > segment.start && /\S/.test(text[start - 1])) {
+      start--;
+    }
+    while (end < segment.end && /\S/.test(text[end])) {
+      end++;
+    }
+    const range = Range.create(document.positionAt(start), document.positionAt(end));
+
+    const items: { [name: string]: CompletionItem } = {};
+    for (const selector of findClassSelectors(styledJsx)) {
+      if (!items[selector.name]) {
+        items[selector.name] = {
+          label: selector.name,
+          kind: CompletionItemKind.Class,
+          detail: `.${selector.name}`,
+          textEdit: TextEdit.replace(range, selector.name),
+        };
+      }
+    }
+    for (const style of globalClasses) {
+      if (!items[style.name]) {
+        items[style.name] = {
+          label: style.name,
+          kind: CompletionItemKind.Class,
+          detail: `.${style.name} (global)`,
+          textEdit: TextEdit.replace(range, style.name),
+        };
+      }
+    }
+    return CompletionList.create(
+      Object.keys(items).map((name) => items[name]),
+      false
+    );
+  }
+  return null;
+}
+
+export function findClassNameDefinition(
+  typescript: typeof ts,
+  document: TextDocument,
+  styledJsx: StyledJsx,
+  position: Position,
+  globalClasses: GlobalStyle[] = []
+): Location[] | null {
+  const usage = getClassNameUsageAt(
+    findClassNameAttributes(typescript, styledJsx.sourceFile),
+    document.offsetAt(position)
+  );
+  if (!usage) {
+    return null;
+  }
+
+  const locations = findClassSelectors(styledJsx)
+    .filter((selector) => selector.name === usage.name)
+    .map((selector) => toLocation(document, selector.start - 1, selector.end));
+  // the class is defined in the global styles of another file
+  return locations.length > 0
+    ? locations
+    : globalClasses.filter((style) => style.name === usage.name).map((style) => style.location);
+}
+
+// References to the class under the cursor, which may be a selector or a className
+export function findClassNameReferences(
+  typescript: typeof ts,
+  document: TextDocument,
+  styledJsx: StyledJsx,
+  position: Position
+): Location[] {
+  const offset = document.offsetAt(position);
+  const attributes = findClassNameAttributes(typescript, styledJsx.sourceFile);
+  const selector = getClassSelectorAt(styledJsx, offset);
+  const target = selector || getClassNameUsageAt(attributes, offset);
+  if (!target) {
+    return [];
+  }
+
+  const locations: Location[] = [];
+  if (!selector) {
+    // the CSS service only knows about references from within the styles
+    for (const item of findClassSelectors(styledJsx)) {
+      if (item.name === target.name) {
+        locations.push(toLocation(document, item.start - 1, item.end));
+      }
+    }
+  }
+  for (const attribute of attributes) {
+    for (const usage of attribute.usages) {
+      if (usage.name === target.name) {
+        locations.push(toLocation(document, usage.start, usage.end));
+      }
+    }
+  }
+  return locations;
+}
@@ -0,0 +1,135 @@
+/* eslint-disable no-unused-vars */
+import * as ts from "typescript";
+import { TextDocument } from "vscode-languageserver-textdocument";
+import { Stylesheet } from "vscode-css-languageservice";
+import {
+  StyledJsx,
+  StyledJsxOptions,
+  StyledJsxTaggedTemplate,
+  getApproximateStyledJsxOffsets,
+  createStyledJsxSourceFile,
+  findStyledJsxTaggedTemplate,
+  maskInterpolations,
+  replaceAllWithSpacesExceptCss,
+} from "./styled-jsx-utils";
+
+// The CSS of a single template. The text before the template is reduced to the line breaks
+// and indentation in front of it, so lines and characters are those of the host document
+// while offsets are shifted, see getCssOffset and getHostOffset.
+export interface StyledJsxTemplateDocument {
+  template: StyledJsxTaggedTemplate;
+  cssDocument: TextDocument;
+  stylesheet: Stylesheet;
+  // offset of the template start in the CSS document
+  offset: number;
+}
+
+// The styled-jsx of a host document, built up as requests need it.
+// Cache it per document version, the TypeScript parse is done once.
+export interface StyledJsxDocument {
+  // undefined when the document can't contain styled-jsx
+  readonly sourceFile: ts.SourceFile | undefined;
+  readonly styledJsxTaggedTemplates: StyledJsxTaggedTemplate[];
+  // the CSS of all templates, with the offsets of the host document
+  getStyledJsx(): StyledJsx | undefined;
+  getTemplates(): StyledJsxTemplateDocument[];
+  // the template containing the offset, if any
+  getTemplateAt(offset: number): StyledJsxTemplateDocument | undefined;
+}
+
+export function getCssOffset(templateDocument: StyledJsxTemplateDocument, offset: number): number {
+  return offset - templateDocument.template.start + templateDocument.offset;
+}
+
+export function getHostOffset(templateDocument: StyledJsxTemplateDocument, offset: number): number {
+  return offset - templateDocument.offset + templateDocument.template.start;
+}
+
+function createTemplateDocument(
+  document: TextDocument,
+  template: StyledJsxTaggedTemplate,
+  parseStylesheet: (cssDocument: TextDocument) => Stylesheet,
+  dialect: string
+): StyledJsxTemplateDocument {
+  const { line, character } = document.positionAt(template.start);
+  const prefix = "\n".repeat(line) + " ".repeat(character);
+  const cssDocument = TextDocument.create(
+    document.uri,
+    dialect,
+    document.version,
+    prefix + maskInterpolations(document.getText(), template)
+  );
+
+  return {
+    template,
+    cssDocument,
+    stylesheet: parseStylesheet(cssDocument),
+    offset: prefix.length,
+  };
+}
+
+export function createStyledJsxDocument(
+  typescript: typeof ts,
+  document: TextDocument,
+  options: StyledJsxOptions,
+  parseStylesheet: (cssDocument: TextDocument) => Stylesheet,
+  // fills in the types and values of interpolations before they are masked
+  resolveInterpolations?: (document: TextDocument, templates: StyledJsxTaggedTemplate[]) => void,
+  // a parse of the document that already exists, with parent nodes set
+  getSourceFile?: (document: TextDocument) => ts.SourceFile | undefined
+): StyledJsxDocument {
+  const dialect = options.dialect || "scss";
+  const styledJsxOffsets: number[] = getApproximateStyledJsxOffsets(document, options);
+  const sourceFile =
+    styledJsxOffsets.length > 0
+      ? (getSourceFile && getSourceFile(document)) ||
+        createStyledJsxSourceFile(typescript, document)
+      : undefined;
+  const styledJsxTaggedTemplates = sourceFile
+    ? findStyledJsxTaggedTemplate(typescript, document, styledJsxOffsets, sourceFile, options)
+    : [];
+  if (resolveInterpolations && styledJsxTaggedTemplates.length > 0) {
+    resolveInterpolations(document, styledJsxTaggedTemplates);
+  }
+
+  let styledJsx: StyledJsx | undefined;
+  const templateDocuments: StyledJsxTemplateDocument[] = [];
+
+  const getTemplate = (index: number): StyledJsxTemplateDocument => {
+    if (!templateDocuments[index]) {
+      templateDocuments[index] = createTemplateDocument(
+        document,
+        styledJsxTaggedTemplates[index],
+        parseStylesheet,
+        dialect
+      );
+    }
+    return templateDocuments[index];
+  };
+
+  return {
+    sourceFile,
+    styledJsxTaggedTemplates,
+    getStyledJsx() {
+      if (!styledJsx && sourceFile && styledJsxTaggedTemplates.length > 0) {
+        styledJsx = replaceAllWithSpacesExceptCss(
+          document,
+          styledJsxTaggedTemplates,
+          parseStylesheet,
+          sourceFile,
+          dialect
+        );
+      }
+      return styledJsx;
+    },
+    getTemplates() {
+      return styledJsxTaggedTemplates.map((_template, index) => getTemplate(index));
+    },
+    getTemplateAt(offset: number) {
+      const index = styledJsxTaggedTemplates.findIndex(
+        (template) => template.start <= offset && offset <= template.end
+      );
+      return index !== -1 ? getTemplate(index) : undefined;
+    },
+  };
+}
@@ -0,0 +1,264 @@
+/* eslint-disable no-unused-vars */
+import { TextEdit, FormattingOptions, Range } from "vscode-languageserver";
+import { TextDocument } from "vscode-languageserver-textdocument";
+import { StyledJsxTaggedTemplate, StyledJsxInterpolation } from "./styled-jsx-utils";
+
+interface Segment {
+  text: string;
+  // strings, comments and interpolations are copied as written
+  verbatim: boolean;
+}
+
+interface Statement {
+  kind: "open" | "close" | "declaration" | "comment";
+  segments: Segment[];
+  blankLineBefore: boolean;
+}
+
+function isWhitespace(segments: Segment[]): boolean {
+  return segments.every((segment) => !segment.verbatim && segment.text.trim() === "");
+}
+
+// Splits template content into blocks, declarations and comments. Returns undefined
+// when the content can't be understood (unbalanced braces, unterminated strings).
+function parseStatements(
+  text: string,
+  offset: number,
+  interpolations: StyledJsxInterpolation[]
+): Statement[] | undefined {
+  const statements: Statement[] = [];
+  let segments: Segment[] = [];
+  let raw = "";
+  let newlines = 0;
+  let parens = 0;
+  let depth = 0;
+
+  const flushRaw = () => {
+    if (raw) {
+      segments.push({ text: raw, verbatim: false });
+      raw = "";
+    }
+  };
+  const pushVerbatim = (value: string) => {
+    flushRaw();
+    segments.push({ text: value, verbatim: true });
+  };
+  const pushStatement = (kind: Statement["kind"], statementSegments: Segment[]) => {
+    statements.push({ kind, segments: statementSegments, blankLineBefore: newlines > 1 });
+    newlines = 0;
+  };
+  const flushStatement = (kind: Statement["kind"]) => {
+    flushRaw();
+    if (!isWhitespace(segments)) {
+      pushStatement(kind, segments);
+    }
+    segments = [];
+  };
+
+  let i = 0;
+  while (i < text.length) {
+    const interpolation = interpolations.find((item) => item.start - offset === i);
+    if (interpolation) {
+      const value = text.slice(i, interpolation.end - offset);
+      i += value.length;
+      pushVerbatim(value);
+      // an interpolation alone on its line stands for whole declarations
+      if (
+        parens === 0 &&
+        isWhitespace(segments.slice(0, -1)) &&
+        /^[ \t]*(\r?\n|$)/.test(text.slice(i))
+      ) {
+        segments = segments.slice(-1);
+        pushStatement("declaration", segments);
+        segments = [];
+      }
+      continue;
+    }
+
+    const char = text[i];
+    const next = text[i + 1];
+    if (char === "/" && (next === "*" || (next === "/" && parens === 0))) {
+      const close = next === "*" ? text.indexOf("*/", i + 2) : text.indexOf("\n", i);
+      const commentEnd = close === -1 ? text.length : next === "*" ? close + 2 : close;
+      const comment = text.slice(i, commentEnd).replace(/\s+$/, "");
+      i = commentEnd;
+      flushRaw();
+      if (isWhitespace(segments)) {
+        segments = [];
+        pushStatement("comment", [{ text: comment, verbatim: true }]);
+      } else if (next === "/") {
+        // joined with what follows, the line comment would swallow the rest of the statement
+        return undefined;
+      } else {
+        segments.push({ text: comment, verbatim: true });
+      }
+      continue;
+    }
+    if (char === '"' || char === "'") {
+      let j = i + 1;
+      while (j < text.length && text[j] !== char && text[j] !== "\n") {
+        j += text[j] === "\\" ? 2 : 1;
+      }
+      if (text[j] !== char) {
+        return undefined;
+      }
+      pushVerbatim(text.slice(i, j + 1));
+      i = j + 1;
+      continue;
+    }
+
+    i++;
+    if (char === "(") {
+      parens++;
+    } else if (char === ")") {
+      parens = Math.max(0, parens - 1);
+    } else if (parens === 0 && char === "{") {
+      flushRaw();
+      pushStatement("open", isWhitespace(segments) ? [] : segments);
+      segments = [];
+      depth++;
+      continue;
+    } else if (parens === 0 && char === "}") {
+      flushStatement("declaration");
+      pushStatement("close", []);
+      if (--depth < 0) {
+        return undefined;
+      }
+      continue;
+    } else if (parens === 0 && char === ";") {
+      raw += char;
+      flushStatement("declaration");
+      continue;
+    }
+
+    if (char === "\n" && isWhitespace(segments) && !raw.trim()) {
+      newlines++;
+    }
+    raw += char;
+  }
+  flushStatement("declaration");
+
+  return depth === 0 ? statements : undefined;
+}
+
+function printSegments(segments: Segment[]): string {
+  let result = "";
+  for (const segment of segments) {
+    result += segment.verbatim ? segment.text : segment.text.replace(/\s+/g, " ");
+  }
+  return result.trim();
+}
+
+function printPrelude(segments: Segment[]): string {
+  return printSegments(
+    segments.map((segment) =>
+      segment.verbatim ? segment : { text: segment.text.replace(/\s*,\s*/g, ", "), verbatim: false }
+    )
+  );
+}
+
+function printDeclaration(segments: Segment[]): string {
+  const [first, ...rest] = segments;
+  if (first && !first.verbatim) {
+    const match = /^\s*([-\w]+)\s*:\s*/.exec(first.text);
+    if (match) {
+      const value = printSegments([
+        { text: first.text.slice(match[0].length), verbatim: false },
+        ...rest,
+      ]);
+      return `${match[1]}: ${value}${value.endsWith(";") ? "" : ";"}`;
+    }
+  }
+  return printSegments(segments);
+}
+
+function getIndentation(document: TextDocument, offset: number): string {
+  const line = document.positionAt(offset).line;
+  const lineText = document.getText(Range.create(line, 0, line + 1, 0));
+  const match = /^[ \t]*/.exec(lineText);
+  return match ? match[0] : "";
+}
+
+function formatTemplate(
+  document: TextDocument,
+  template: StyledJsxTaggedTemplate,
+  options: FormattingOptions
+): TextEdit | undefined {
+  const text = document.getText().slice(template.start, template.end);
+  if (text.trim() === "") {
+    return undefined;
+  }
+
+  const statements = parseStatements(text, template.start, template.interpolations);
+  if (!statements) {
+    return undefined;
+  }
+
+  const unit = options.insertSpaces ? " ".repeat(options.tabSize) : "\t";
+  // the backtick line sets the indentation of the template
+  const baseIndentation = getIndentation(document, template.start - 1);
+  const lines: string[] = [];
+  let depth = 0;
+  let previous: Statement | undefined;
+
+  for (const statement of statements) {
+    if (statement.kind === "close") {
+      depth--;
+    }
+    const indentation = baseIndentation + unit.repeat(depth + 1);
+    if (
+      statement.blankLineBefore &&
+      previous &&
+      previous.kind !== "open" &&
+      statement.kind !== "close"
+    ) {
+      lines.push("");
+    }
+
+    if (statement.kind === "open") {
+      const prelude = printPrelude(statement.segments);
+      lines.push(`${indentation}${prelude ? prelude + " " : ""}{`);
+      depth++;
+    } else if (statement.kind === "close") {
+      lines.push(`${indentation}}`);
+    } else if (statement.kind === "comment") {
+      lines.push(`${indentation}${statement.segments[0].text}`);
+    } else {
+      lines.push(`${indentation}${printDeclaration(statement.segments)}`);
+    }
+    previous = statement;
+  }
+
+  const newText = `\n${lines.join("\n")}\n${baseIndentation}`;
+  if (newText === text) {
+    return undefined;
+  }
+
+  return TextEdit.replace(
+    Range.create(document.positionAt(template.start), document.positionAt(template.end)),
+    newText
+  );
+}
+
+export function formatStyledJsx(
+  document: TextDocument,
+  styledJsxTaggedTemplates: StyledJsxTaggedTemplate[],
+  options: FormattingOptions,
+  range?: Range
+): TextEdit[] {
+  const edits: TextEdit[] = [];
+  const rangeStart = range ? document.offsetAt(range.start) : 0;
+  const rangeEnd = range ? document.offsetAt(range.end) : Number.MAX_VALUE;
+
+  for (const template of styledJsxTaggedTemplates) {
+    // range formatting reformats every template the range touches
+    if (template.end < rangeStart || template.start > rangeEnd) {
+      continue;
+    }
+    const edit = formatTemplate(document, template, options);
+    if (edit) {
+      edits.push(edit);
+    }
+  }
+  return edits;
+}
@@ -0,0 +1,348 @@
+/* eslint-disable no-unused-vars */
+import * as ts from "typescript";
+import { Range, TextEdit } from "vscode-languageserver";
+import { TextDocument } from "vscode-languageserver-textdocument";
+import { StyledJsx, StyledJsxTaggedTemplate, getComponentNode } from "./styled-jsx-utils";
+import { findClassNameAttributes, findClassSelectors } from "./styled-jsx-class-names";
+
+// React adds px to the numbers of every other property
+const unitlessProperties: string[] = [
+  "animationIterationCount",
+  "columnCount",
+  "columns",
+  "flex",
+  "flexGrow",
+  "flexShrink",
+  "fontWeight",
+  "gridColumn",
+  "gridRow",
+  "lineHeight",
+  "opacity",
+  "order",
+  "orphans",
+  "tabSize",
+  "widows",
+  "zIndex",
+  "zoom",
+];
+
+export interface InlineStyle {
+  attribute: ts.JsxAttribute;
+  element: ts.JsxOpeningLikeElement;
+  // property names and values, values as they are written in the template
+  declarations: { property: string; value: string }[];
+}
+
+// backgroundColor is background-color, WebkitTransition and msTransform get their dash
+function toCssProperty(name: string): string {
+  if (name.indexOf("--") === 0) {
+    return name;
+  }
+  const property = name.replace(/[A-Z]/g, (char) => "-" + char.toLowerCase());
+  return /^ms-/.test(property) ? "-" + property : property;
+}
+
+function escapeTemplateText(text: string): string {
+  return text.replace(/[`\\]|\$\{/g, (match) => "\\" + match);
+}
+
+function getPropertyName(typescript: typeof ts, name: ts.PropertyName): string | undefined {
+  return typescript.isIdentifier(name) ||
+    typescript.isStringLiteral(name) ||
+    typescript.isNumericLiteral(name)
+    ? name.text
+    : undefined;
+}
+
+function isUnitless(name: string): boolean {
+  // WebkitFlex is as unitless as flex
+  const unprefixed = name.replace(/^(Webkit|Moz|ms|O)([A-Z])/, (_, prefix, char: string) =>
+    char.toLowerCase()
+  );
+  return unitlessProperties.indexOf(unprefixed) !== -1 || name.indexOf("--") === 0;
+}
+
+// The number of a literal like 8 or -4
+function getNumericText(typescript: typeof ts, expression: ts.Expression): string | undefined {
+  if (typescript.isNumericLiteral(expression)) {
+    return expression.text;
+  }
+  if (
+    typescript.isPrefixUnaryExpression(expression) &&
+    typescript.isNumericLiteral(expression.operand) &&
+    (expression.operator === typescript.SyntaxKind.MinusToken ||
+      expression.operator === typescript.SyntaxKind.PlusToken)
+  ) {
+    const text = expression.operand.text;
+    return expression.operator === typescript.SyntaxKind.MinusToken && text !== "0"
+      ? "-" + text
+      : text;
+  }
+  return undefined;
+}
+
+// Literal values are written out, everything else becomes an interpolation that adds px to
+// numbers as React does. Undefined when that would evaluate a complex expression twice.
+function getCssValue(
+  typescript: typeof ts,
+  name: string,
+  initializer: ts.Expression
+): string | undefined {
+  if (
+    typescript.isStringLiteral(initializer) ||
+    typescript.isNoSubstitutionTemplateLiteral(initializer)
+  ) {
+    return escapeTemplateText(initializer.text);
+  }
+  const numericText = getNumericText(typescript, initializer);
+  if (numericText !== undefined) {
+    return isUnitless(name) || numericText === "0" ? numericText : numericText + "px";
+  }
+  const expression = initializer.getText();
+  // template literals are strings
+  if (isUnitless(name) || typescript.isTemplateExpression(initializer)) {
+    return "${" + expression + "}";
+  }
+  if (typescript.isIdentifier(initializer) || typescript.isPropertyAccessExpression(initializer)) {
+    return `\${typeof ${expression} === "number" ? ${expression} + "px" : ${expression}}`;
+  }
+  return undefined;
+}
+
+// The style={{ ... }} of an intrinsic element at the offset, when all its keys are known
+export function findInlineStyleAt(
+  typescript: typeof ts,
+  sourceFile: ts.SourceFile,
+  offset: number
+): InlineStyle | undefined {
+  let attribute: ts.JsxAttribute | undefined;
+  const visit = (node: ts.Node) => {
+    if (node.getStart() > offset || node.getEnd() < offset) {
+      return;
+    }
+    if (typescript.isJsxAttribute(node) && node.name.getText() === "style") {
+      attribute = node;
+      return;
+    }
+    typescript.forEachChild(node, visit);
+  };
+  visit(sourceFile);
+
+  const initializer = attribute && attribute.initializer;
+  const object =
+    initializer && typescript.isJsxExpression(initializer) ? initializer.expression : undefined;
+  if (!attribute || !object || !typescript.isObjectLiteralExpression(object)) {
+    return undefined;
+  }
+  const element = attribute.parent.parent;
+  if (!/^[a-z]/.test(element.tagName.getText())) {
+    return undefined;
+  }
+
+  const declarations: { property: string; value: string }[] = [];
+  for (const property of object.properties) {
+    const name = typescript.isShorthandPropertyAssignment(property)
+      ? property.name.text
+      : typescript.isPropertyAssignment(property)
+      ? getPropertyName(typescript, property.name)
+      : undefined;
+    // spreads and computed keys aren't known until runtime
+    if (!name) {
+      return undefined;
+    }
+    const value = typescript.isShorthandPropertyAssignment(property)
+      ? getCssValue(typescript, name, property.name)
+      : typescript.isPropertyAssignment(property)
+      ? getCssValue(typescript, name, property.initializer)
+      : undefined;
+    // a value that can't be written as CSS leaves the style as it is
+    if (value === undefined) {
+      return undefined;
+    }
+    declarations.push({ property: toCssProperty(name), value });
+  }
+  return declarations.length > 0 ? { attribute, element, declarations } : undefined;
+}
+
+// The tag of the element, made unique among the classes of the file
+export function getInlineStyleClassName(
+  typescript: typeof ts,
+  sourceFile: ts.SourceFile,
+  styledJsx: StyledJsx | undefined,
+  inlineStyle: InlineStyle
+): string {
+  const used: string[] = styledJsx ? findClassSelectors(styledJsx).map((item) => item.name) : [];
+  for (const attribute of findClassNameAttributes(typescript, sourceFile)) {
+    used.push(...attribute.usages.map((usage) => usage.name));
+  }
+  const base = inlineStyle.element.tagName.getText().toLowerCase();
+  let name = base;
+  for (let i = 2; used.indexOf(name) !== -1; i++) {
+    name = `${base}-${i}`;
+  }
+  return name;
+}
+
+export function formatInlineStyleRule(
+  inlineStyle: InlineStyle,
+  className: string,
+  indent: string
+): string {
+  return [`${indent}.${className} {`]
+    .concat(
+      inlineStyle.declarations.map(({ property, value }) => `${indent}  ${property}: ${value};`)
+    )
+    .concat(`${indent}}`)
+    .join("\n");
+}
+
+function formatStyleElement(inlineStyle: InlineStyle, className: string, indent: string): string {
+  return (
+    "<style jsx>{`\n" +
+    formatInlineStyleRule(inlineStyle, className, indent + "  ") +
+    `\n${indent}\`}</style>`
+  );
+}
+
+function getIndentation(text: string, offset: number): string {
+  const lineStart = text.lastIndexOf("\n", offset - 1) + 1;
+  return /^[ \t]*/.exec(text.slice(lineStart))![0];
+}
+
+// The outermost element around the node in its component, where <style jsx> belongs
+function getRootElement(
+  typescript: typeof ts,
+  node: ts.Node,
+  component: ts.Node
+): ts.JsxElement | ts.JsxFragment | undefined {
+  let root: ts.JsxElement | ts.JsxFragment | undefined;
+  for (
+    let current: ts.Node | undefined = node;
+    current && current !== component;
+    current = current.parent
+  ) {
+    if (typescript.isJsxElement(current) || typescript.isJsxFragment(current)) {
+      root = current;
+    }
+  }
+  return root;
+}
+
+// The class goes next to the classes the element already has
+function getClassNameEdit(
+  typescript: typeof ts,
+  document: TextDocument,
+  inlineStyle: InlineStyle,
+  className: string
+): TextEdit | undefined {
+  const { element } = inlineStyle;
+  const attribute = element.attributes.properties.find(
+    (property): property is ts.JsxAttribute =>
+      typescript.isJsxAttribute(property) && property.name.getText() === "className"
+  );
+  const initializer = attribute && attribute.initializer;
+  if (!initializer) {
+    return undefined;
+  }
+  const expression = typescript.isJsxExpression(initializer) ? initializer.expression : initializer;
+  if (!expression) {
+    return undefined;
+  }
+  const end = document.positionAt(expression.getEnd() - 1);
+  if (
+    typescript.isStringLiteral(expression) ||
+    typescript.isNoSubstitutionTemplateLiteral(expression)
+  ) {
+    return TextEdit.insert(end, expression.text ? " " + className : className);
+  }
+  if (typescript.isTemplateExpression(expression)) {
+    return TextEdit.insert(end, " " + className);
+  }
+  return TextEdit.replace(
+    Range.create(
+      document.positionAt(initializer.getStart()),
+      document.positionAt(initializer.getEnd())
+    ),
+    `{\`\${${expression.getText()}} ${className}\`}`
+  );
+}
+
+// Moves the inline style into a rule of the component's <style jsx>, or of a new one at the
+// end of its root element, and gives the element the class of the rule
+export function convertInlineStyle(
+  typescript: typeof ts,
+  document: TextDocument,
+  templates: StyledJsxTaggedTemplate[],
+  inlineStyle: InlineStyle,
+  className: string
+): TextEdit[] | undefined {
+  const text = document.getText();
+  const { attribute, element } = inlineStyle;
+  const component = getComponentNode(typescript, element);
+  if (!component) {
+    return undefined;
+  }
+
+  const classNameEdit = getClassNameEdit(typescript, document, inlineStyle, className);
+  const attributeRange = Range.create(
+    document.positionAt(attribute.getStart()),
+    document.positionAt(attribute.getEnd())
+  );
+  const edits: TextEdit[] = classNameEdit
+    ? [
+        classNameEdit,
+        // the style attribute goes with the space in front of it
+        TextEdit.del(Range.create(document.positionAt(attribute.pos), attributeRange.end)),
+      ]
+    : [TextEdit.replace(attributeRange, `className="${className}"`)];
+
+  const template = templates.find(
+    (item) =>
+      item.kind === "style" && !item.global && getComponentNode(typescript, item.node) === component
+  );
+  if (template) {
+    const content = text.slice(template.start, template.end);
+    const lastLine = content.lastIndexOf("\n");
+    const closingIndent = getIndentation(text, template.end);
+    const firstRule = /\n([ \t]*)\S/.exec(content);
+    const ruleIndent = firstRule ? firstRule[1] : closingIndent + "  ";
+    const rule = formatInlineStyleRule(inlineStyle, className, ruleIndent);
+    edits.push(
+      lastLine !== -1 && content.slice(lastLine).trim() === ""
+        ? TextEdit.insert(document.positionAt(template.start + lastLine), "\n" + rule)
+        : TextEdit.insert(document.positionAt(template.end), "\n" + rule + "\n" + closingIndent)
+    );
+    return edits;
+  }
+
+  const root = getRootElement(typescript, element, component);
+  if (!root) {
+    if (!typescript.isJsxSelfClosingElement(element)) {
+      return undefined;
+    }
+    // a self-closing root has no room for the style, a fragment holds both
+    const indent = getIndentation(text, element.getStart());
+    const childIndent = indent + "  ";
+    edits.push(
+      TextEdit.insert(document.positionAt(element.getStart()), "<>\n" + childIndent),
+      TextEdit.insert(
+        document.positionAt(element.getEnd()),
+        `\n${childIndent}${formatStyleElement(inlineStyle, className, childIndent)}\n${indent}</>`
+      )
+    );
+    return edits;
+  }
+  const closing = typescript.isJsxElement(root) ? root.closingElement : root.closingFragment;
+  const closingStart = closing.getStart();
+  const closingIndent = getIndentation(text, closingStart);
+  const childIndent = closingIndent + "  ";
+  // a closing tag on its own line keeps its indentation, one after other code gets a new line
+  const ownLine =
+    text.slice(text.lastIndexOf("\n", closingStart - 1) + 1, closingStart).trim() === "";
+  const style =
+    (ownLine ? "  " : "\n" + childIndent) +
+    formatStyleElement(inlineStyle, className, childIndent) +
+    `\n${closingIndent}`;
+  edits.push(TextEdit.insert(document.positionAt(closingStart), style));
+  return edits;
+}
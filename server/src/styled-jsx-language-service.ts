@@ -0,0 +1,1093 @@
+/* eslint-disable no-unused-vars */
+import * as fs from "fs";
+import * as path from "path";
+import * as ts from "typescript";
+import { fileURLToPath, pathToFileURL } from "url";
+import {
+  CompletionList,
+  WorkspaceEdit,
+  ColorPresentation,
+  SymbolInformation,
+  Hover,
+  Command,
+  CodeAction,
+  CodeActionContext,
+  CodeActionKind,
+  Definition,
+  Location,
+  DocumentHighlight,
+  DocumentLink,
+  Diagnostic,
+  FormattingOptions,
+  TextEdit,
+  Range,
+  FoldingRange,
+  SelectionRange,
+  Position,
+  CompletionItem,
+  Color,
+  ClientCapabilities,
+  ResponseError,
+  Proposed,
+  ResourceOperationKind,
+  DiagnosticSeverity,
+  ErrorCodes,
+} from "vscode-languageserver";
+import { TextDocument } from "vscode-languageserver-textdocument";
+import {
+  getCSSLanguageService,
+  getSCSSLanguageService,
+  getLESSLanguageService,
+  LanguageService,
+  ColorInformation,
+} from "vscode-css-languageservice";
+
+import { getLanguageModelCache, LanguageModelCache } from "./language-model-cache";
+import {
+  StyledJsx,
+  StyledJsxOptions,
+  StyledJsxTaggedTemplate,
+  isInInterpolation,
+  createStyledJsxSourceFile,
+} from "./styled-jsx-utils";
+import {
+  createStyledJsxDocument,
+  StyledJsxDocument,
+  StyledJsxTemplateDocument,
+  getCssOffset,
+  getHostOffset,
+} from "./styled-jsx-document";
+import { formatStyledJsx } from "./styled-jsx-format";
+import {
+  doClassNameComplete,
+  findClassNameDefinition,
+  findClassNameReferences,
+  findClassNameAttributes,
+  findClassSelectors,
+  getClassNameUsageAt,
+} from "./styled-jsx-class-names";
+import { prepareClassNameRename, doClassNameRename, classNamePattern } from "./styled-jsx-rename";
+import { getStyledJsxFoldingRanges, getStyledJsxSelectionRanges } from "./styled-jsx-ranges";
+import { doValidation } from "./styled-jsx-validation";
+import { doScopeHover, doGlobalComplete, addSymbolScopes } from "./styled-jsx-scope";
+import {
+  StyledJsxSettings,
+  StyledJsxDialect,
+  StyledJsxFeature,
+  isFeatureEnabled,
+} from "./styled-jsx-settings";
+import {
+  findBabelConfigDialect,
+  findBabelConfigVendorPrefixes,
+  clearBabelConfigCache,
+} from "./styled-jsx-babel-config";
+import {
+  getInterpolationResolver,
+  doInterpolationHover,
+  getInterpolationColors,
+} from "./styled-jsx-typescript";
+import {
+  getWorkspaceIndex,
+  findGlobalStyles,
+  findGlobalStyleReference,
+  doGlobalStyleComplete,
+  doGlobalStyleHover,
+  getWorkspaceSymbols,
+  GlobalStyle,
+} from "./styled-jsx-workspace-index";
+import { getStyledJsxSemanticTokens, semanticTokensLegend } from "./styled-jsx-semantic-tokens";
+import { getExtractedCss, getCompiledOutput } from "./styled-jsx-preview";
+import { getStyledJsxRefactors } from "./styled-jsx-refactor";
+import { getStylelintRunner } from "./styled-jsx-stylelint";
+import { getVendorPrefixFixes } from "./styled-jsx-vendor-prefixes";
+import {
+  findStyledJsxLinks,
+  getPathCompletionParticipant,
+  defaultPublicDirectory,
+} from "./styled-jsx-links";
+import {
+  findInlineStyleAt,
+  getInlineStyleClassName,
+  formatInlineStyleRule,
+  convertInlineStyle,
+} from "./styled-jsx-inline-style";
+
+export {
+  StyledJsx,
+  StyledJsxOptions,
+  StyledJsxTaggedTemplate,
+  StyledJsxDocument,
+  StyledJsxTemplateDocument,
+  StyledJsxSettings,
+  StyledJsxDialect,
+  StyledJsxFeature,
+  GlobalStyle,
+  getCssOffset,
+  getHostOffset,
+  semanticTokensLegend,
+};
+
+export interface StyledJsxLanguageServiceOptions {
+  clientCapabilities?: ClientCapabilities;
+  // the SourceFile of a program that already parsed the document, instead of parsing it again
+  getSourceFile?: (document: TextDocument) => ts.SourceFile | undefined;
+  // the TypeScript the source files come from, their nodes have the kinds of its version
+  typescript?: typeof ts;
+}
+
+// The styled-jsx features of a JavaScript or TypeScript document, without a connection
+// to a client. Settings are given with configure, the features they turn off return null.
+export interface StyledJsxLanguageService {
+  configure(settings: StyledJsxSettings): void;
+  // the templates of the document with their CSS documents, kept per document version
+  parseStyledJsxDocument(document: TextDocument): StyledJsxDocument;
+  doValidation(document: TextDocument, settings?: StyledJsxSettings): Diagnostic[];
+  doComplete(document: TextDocument, position: Position): CompletionList | null;
+  doHover(document: TextDocument, position: Position): Hover | null;
+  findDocumentSymbols(document: TextDocument): SymbolInformation[] | null;
+  findDefinition(document: TextDocument, position: Position): Definition | null;
+  findReferences(document: TextDocument, position: Position): Location[] | null;
+  findDocumentHighlights(document: TextDocument, position: Position): DocumentHighlight[] | null;
+  // the files of url() and @import, relative to the document or in its public directory
+  findDocumentLinks(document: TextDocument): DocumentLink[] | null;
+  doCodeActions(
+    document: TextDocument,
+    range: Range,
+    context: CodeActionContext
+  ): (Command | CodeAction)[] | null;
+  // the problems stylelint finds in the templates and its fixes, when the workspace has
+  // stylelint and a config for it
+  doStylelintValidation(
+    document: TextDocument,
+    settings?: StyledJsxSettings
+  ): Promise<Diagnostic[]>;
+  doStylelintCodeActions(
+    document: TextDocument,
+    range: Range,
+    context: CodeActionContext
+  ): Promise<CodeAction[]>;
+  findDocumentColors(document: TextDocument): ColorInformation[];
+  getColorPresentations(document: TextDocument, color: Color, range: Range): ColorPresentation[];
+  // an error when a class is also built at runtime and can't be renamed
+  prepareRename(document: TextDocument, position: Position): Range | ResponseError<void> | null;
+  doRename(
+    document: TextDocument,
+    position: Position,
+    newName: string
+  ): WorkspaceEdit | ResponseError<void> | null;
+  format(
+    document: TextDocument,
+    range: Range | undefined,
+    options: FormattingOptions
+  ): TextEdit[] | null;
+  getFoldingRanges(
+    document: TextDocument,
+    context?: { rangeLimit?: number }
+  ): FoldingRange[] | null;
+  getSelectionRanges(document: TextDocument, positions: Position[]): SelectionRange[];
+  // the tokens of the templates, with the types of semanticTokensLegend
+  getSemanticTokens(document: TextDocument, range?: Range): Proposed.SemanticTokens | null;
+  findWorkspaceSymbols(query: string): SymbolInformation[] | null;
+  // the style={{ ... }} at the position as a rule of the component's <style jsx>, under the
+  // given class or one named after the element
+  convertInlineStyle(
+    document: TextDocument,
+    position: Position,
+    className?: string
+  ): WorkspaceEdit | ResponseError<void> | null;
+  // the CSS document the features work on, and the CSS styled-jsx would emit,
+  // null when the document has no templates
+  getExtractedCss(document: TextDocument): string | null;
+  getCompiledOutput(document: TextDocument): string | null;
+  // the global styles of a document, or of a file on disk, for the workspace features
+  indexDocument(document: TextDocument): void;
+  indexFile(fileName: string): void;
+  removeFromIndex(fileName: string): void;
+  clearIndex(): void;
+  // a babel config, tsconfig.json or stylelint config has changed
+  onConfigFilesChanged(): void;
+  onDocumentRemoved(document: TextDocument): void;
+  dispose(): void;
+}
+
+const languageIds: { [extension: string]: string } = {
+  ".js": "javascript",
+  ".jsx": "javascriptreact",
+  ".ts": "typescript",
+  ".tsx": "typescriptreact",
+};
+
+// The language ID an editor gives to a script file, which decides how it's parsed
+export function getLanguageId(fileName: string): string | undefined {
+  return languageIds[path.extname(fileName).toLowerCase()];
+}
+
+let untitledDocuments = 0;
+
+// A document from plain text, for use outside of an editor. Parses are cached by URI and version,
+// so without a URI each document gets one of its own
+export function createStyledJsxTextDocument(
+  text: string,
+  languageId: string = "javascriptreact",
+  uri: string = `untitled:styled-jsx-${++untitledDocuments}`
+): TextDocument {
+  return TextDocument.create(uri, languageId, 0, text);
+}
+
+export function getFileName(uri: string): string | undefined {
+  try {
+    return fileURLToPath(uri);
+  } catch (e) {
+    // not a file on disk
+    return undefined;
+  }
+}
+
+function getDocumentDialect(document: TextDocument, settings: StyledJsxSettings): StyledJsxDialect {
+  if (settings.dialect && settings.dialect !== "auto") {
+    return settings.dialect;
+  }
+  const fileName = getFileName(document.uri);
+  return (fileName && findBabelConfigDialect(fileName)) || "css";
+}
+
+function getDocumentVendorPrefixes(document: TextDocument, settings: StyledJsxSettings): boolean {
+  if (typeof settings.vendorPrefixes === "boolean") {
+    return settings.vendorPrefixes;
+  }
+  const fileName = getFileName(document.uri);
+  return !fileName || findBabelConfigVendorPrefixes(fileName);
+}
+
+function createStyledJsxOptions(
+  document: TextDocument,
+  settings: StyledJsxSettings
+): StyledJsxOptions {
+  return {
+    tags: settings.tags,
+    modules: settings.modules,
+    dialect: getDocumentDialect(document, settings),
+  };
+}
+
+export function getStyledJsxLanguageService(
+  serviceOptions: StyledJsxLanguageServiceOptions = {}
+): StyledJsxLanguageService {
+  const { clientCapabilities, getSourceFile } = serviceOptions;
+  const typescript: typeof ts = serviceOptions.typescript || require("typescript");
+  const completionItem =
+    clientCapabilities &&
+    clientCapabilities.textDocument &&
+    clientCapabilities.textDocument.completion &&
+    clientCapabilities.textDocument.completion.completionItem;
+  const snippetSupport = !!(completionItem && completionItem.snippetSupport);
+  // without a client every kind of edit can be used
+  const codeAction =
+    clientCapabilities &&
+    clientCapabilities.textDocument &&
+    clientCapabilities.textDocument.codeAction;
+  const codeActionLiteralSupport =
+    !clientCapabilities || !!(codeAction && codeAction.codeActionLiteralSupport);
+  const workspaceEdit =
+    clientCapabilities &&
+    clientCapabilities.workspace &&
+    clientCapabilities.workspace.workspaceEdit;
+  const createFiles =
+    !clientCapabilities ||
+    !!(
+      workspaceEdit &&
+      workspaceEdit.documentChanges &&
+      workspaceEdit.resourceOperations &&
+      workspaceEdit.resourceOperations.indexOf(ResourceOperationKind.Create) !== -1
+    );
+
+  const cssLanguageServices: { [dialect: string]: LanguageService } = {
+    css: getCSSLanguageService({ clientCapabilities }),
+    scss: getSCSSLanguageService({ clientCapabilities }),
+    less: getLESSLanguageService({ clientCapabilities }),
+  };
+
+  // the language ID of a CSS document is the dialect it's written in
+  const getCssLanguageService = (cssDocument: TextDocument): LanguageService =>
+    cssLanguageServices[cssDocument.languageId] || cssLanguageServices.scss;
+
+  let globalSettings: StyledJsxSettings = {};
+  // options per document, once its own settings are known
+  let documentOptions: { [uri: string]: StyledJsxOptions } = {};
+  // the settings a document was last validated with, for the features that take none
+  let validationSettings: { [uri: string]: StyledJsxSettings } = {};
+
+  const isEnabled = (feature: StyledJsxFeature): boolean =>
+    isFeatureEnabled(globalSettings, feature);
+
+  const interpolationResolver = getInterpolationResolver(typescript);
+  const workspaceIndex = getWorkspaceIndex();
+  const stylelintRunner = getStylelintRunner();
+
+  const getStyledJsxOptions = (document: TextDocument): StyledJsxOptions => {
+    let options: StyledJsxOptions | undefined = documentOptions[document.uri];
+    if (!options) {
+      options = createStyledJsxOptions(document, globalSettings);
+      documentOptions[document.uri] = options;
+    }
+    return options;
+  };
+
+  const parseDocument = (document: TextDocument, options: StyledJsxOptions): StyledJsxDocument =>
+    createStyledJsxDocument(
+      typescript,
+      document,
+      options,
+      (cssDocument) => getCssLanguageService(cssDocument).parseStylesheet(cssDocument),
+      isEnabled("interpolationValues") ? interpolationResolver.resolveInterpolations : undefined,
+      getSourceFile
+    );
+
+  // the TypeScript parse and the templates of each document version
+  const styledJsxDocuments: LanguageModelCache<StyledJsxDocument> = getLanguageModelCache<
+    StyledJsxDocument
+  >(10, 60, (document) => parseDocument(document, getStyledJsxOptions(document)));
+
+  // Documents are parsed again when their options change
+  const setStyledJsxOptions = (document: TextDocument, options: StyledJsxOptions): void => {
+    const current: StyledJsxOptions | undefined = documentOptions[document.uri];
+    if (current && JSON.stringify(current) !== JSON.stringify(options)) {
+      styledJsxDocuments.onDocumentRemoved(document);
+    }
+    documentOptions[document.uri] = options;
+  };
+
+  const resetStyledJsxOptions = (): void => {
+    for (const uri of Object.keys(documentOptions)) {
+      styledJsxDocuments.onDocumentRemoved(TextDocument.create(uri, "", 0, ""));
+    }
+    documentOptions = {};
+  };
+
+  const getStyledJsx = (document: TextDocument): StyledJsx | undefined =>
+    styledJsxDocuments.get(document).getStyledJsx();
+
+  const getTemplateAt = (
+    document: TextDocument,
+    position: Position
+  ): StyledJsxTemplateDocument | undefined =>
+    styledJsxDocuments.get(document).getTemplateAt(document.offsetAt(position));
+
+  const getPublicDirectory = (): string => globalSettings.publicDirectory || defaultPublicDirectory;
+
+  const getGlobalClasses = (): GlobalStyle[] =>
+    isEnabled("workspaceIndex") ? workspaceIndex.find("class") : [];
+
+  const getDocumentSettings = (document: TextDocument): StyledJsxSettings =>
+    validationSettings[document.uri] || globalSettings;
+
+  // The problems of a rule, validated in a <style jsx> of its own with the dialect and
+  // settings of the document it is written for
+  const validateRule = (document: TextDocument, rule: string): Diagnostic[] => {
+    const ruleDocument = TextDocument.create(
+      document.uri,
+      "javascriptreact",
+      document.version,
+      "<style jsx>{`\n" + rule + "\n`}</style>;\n"
+    );
+    // parsed apart from the cache, which holds the document itself under the same URI
+    const styledJsx = createStyledJsxDocument(
+      typescript,
+      ruleDocument,
+      getStyledJsxOptions(document),
+      (cssDocument) => getCssLanguageService(cssDocument).parseStylesheet(cssDocument)
+    ).getStyledJsx();
+    const settings = getDocumentSettings(document);
+    const diagnostics = styledJsx
+      ? doValidation(
+          typescript,
+          ruleDocument,
+          styledJsx,
+          getCssLanguageService(styledJsx.cssDocument),
+          settings,
+          [],
+          getDocumentVendorPrefixes(document, settings)
+        )
+      : [];
+    // how the rule fits the component is checked once it is in it
+    return diagnostics.filter(
+      (diagnostic) =>
+        diagnostic.source !== "styled-jsx" &&
+        (diagnostic.severity === DiagnosticSeverity.Error ||
+          diagnostic.severity === DiagnosticSeverity.Warning)
+    );
+  };
+
+  // The edit of an inline style with the warnings its rule has, errors stop it
+  const getInlineStyleConversion = (
+    document: TextDocument,
+    position: Position,
+    className?: string
+  ): { edit: WorkspaceEdit; warnings: string[] } | ResponseError<void> | null => {
+    const styledJsxDocument = styledJsxDocuments.get(document);
+    const sourceFile =
+      styledJsxDocument.sourceFile || createStyledJsxSourceFile(typescript, document);
+    const inlineStyle = findInlineStyleAt(typescript, sourceFile, document.offsetAt(position));
+    if (!inlineStyle) {
+      return null;
+    }
+    const name =
+      className ||
+      getInlineStyleClassName(
+        typescript,
+        sourceFile,
+        styledJsxDocument.getStyledJsx(),
+        inlineStyle
+      );
+    if (!classNamePattern.test(name)) {
+      return new ResponseError<void>(
+        ErrorCodes.InvalidParams,
+        `'${name}' is not a valid class name.`
+      );
+    }
+    const problems = validateRule(document, formatInlineStyleRule(inlineStyle, name, ""));
+    const error = problems.find((problem) => problem.severity === DiagnosticSeverity.Error);
+    if (error) {
+      return new ResponseError<void>(
+        ErrorCodes.InvalidRequest,
+        `The style can't be converted to CSS: ${error.message}`
+      );
+    }
+    const edits = convertInlineStyle(
+      typescript,
+      document,
+      styledJsxDocument.styledJsxTaggedTemplates,
+      inlineStyle,
+      name
+    );
+    return edits
+      ? {
+          edit: { changes: { [document.uri]: edits } },
+          warnings: problems.map((problem) => problem.message),
+        }
+      : null;
+  };
+
+  return {
+    configure(settings: StyledJsxSettings): void {
+      globalSettings = settings;
+      for (const dialect of Object.keys(cssLanguageServices)) {
+        cssLanguageServices[dialect].configure(settings);
+      }
+      resetStyledJsxOptions();
+      validationSettings = {};
+    },
+
+    parseStyledJsxDocument(document: TextDocument): StyledJsxDocument {
+      return styledJsxDocuments.get(document);
+    },
+
+    doValidation(document: TextDocument, settings?: StyledJsxSettings): Diagnostic[] {
+      if (settings) {
+        // the dialect may be overridden for the workspace folder of the document
+        setStyledJsxOptions(document, createStyledJsxOptions(document, settings));
+        validationSettings[document.uri] = settings;
+      }
+      const documentSettings = settings || globalSettings;
+      const styledJsx: StyledJsx | undefined = getStyledJsx(document);
+      if (!styledJsx || documentSettings.validate === false) {
+        return [];
+      }
+      return doValidation(
+        typescript,
+        document,
+        styledJsx,
+        getCssLanguageService(styledJsx.cssDocument),
+        documentSettings,
+        getGlobalClasses().map((style) => style.name),
+        getDocumentVendorPrefixes(document, documentSettings)
+      );
+    },
+
+    doComplete(document: TextDocument, position: Position): CompletionList | null {
+      const templateDocument = getTemplateAt(document, position);
+      if (templateDocument) {
+        if (!isEnabled("completion")) {
+          return null;
+        }
+        const { cssDocument, stylesheet, template } = templateDocument;
+        const cssLanguageService = getCssLanguageService(cssDocument);
+        // the paths of url() and @import are collected while the CSS is completed
+        const pathItems: CompletionItem[] = [];
+        cssLanguageService.setCompletionParticipants([
+          getPathCompletionParticipant(document, template, getPublicDirectory(), pathItems),
+        ]);
+        const cssList = cssLanguageService.doComplete(cssDocument, position, stylesheet);
+        cssLanguageService.setCompletionParticipants([]);
+        cssList.items.push(...pathItems);
+        const list = doGlobalComplete(cssList, snippetSupport);
+        return isEnabled("workspaceIndex")
+          ? doGlobalStyleComplete(templateDocument, position, workspaceIndex, list)
+          : list;
+      }
+
+      // outside of the styles, complete the classes they define in className attributes
+      const styledJsx: StyledJsx | undefined = isEnabled("classNames")
+        ? getStyledJsx(document)
+        : undefined;
+      if (styledJsx) {
+        return doClassNameComplete(typescript, document, styledJsx, position, getGlobalClasses());
+      }
+      return null;
+    },
+
+    doHover(document: TextDocument, position: Position): Hover | null {
+      if (!isEnabled("hover")) {
+        return null;
+      }
+
+      const interpolationHover = doInterpolationHover(
+        document,
+        styledJsxDocuments.get(document).styledJsxTaggedTemplates,
+        position
+      );
+      if (interpolationHover) {
+        return interpolationHover;
+      }
+
+      const templateDocument = getTemplateAt(document, position);
+      const reference =
+        templateDocument &&
+        isEnabled("workspaceIndex") &&
+        findGlobalStyleReference(templateDocument, position);
+      const globalStyles = reference ? workspaceIndex.find(reference.kind, reference.name) : [];
+      if (reference && globalStyles.length > 0) {
+        return doGlobalStyleHover(globalStyles, reference.range);
+      }
+      if (templateDocument) {
+        const { cssDocument, stylesheet } = templateDocument;
+        const cssLanguageService = getCssLanguageService(cssDocument);
+        return doScopeHover(
+          templateDocument,
+          position,
+          cssLanguageService.doHover(cssDocument, position, stylesheet)
+        );
+      }
+
+      // a className that only the global styles of other files define
+      const styledJsx: StyledJsx | undefined =
+        isEnabled("classNames") && isEnabled("workspaceIndex") ? getStyledJsx(document) : undefined;
+      const usage =
+        styledJsx &&
+        getClassNameUsageAt(
+          findClassNameAttributes(typescript, styledJsx.sourceFile),
+          document.offsetAt(position)
+        );
+      if (
+        styledJsx &&
+        usage &&
+        !findClassSelectors(styledJsx).some((selector) => selector.name === usage.name)
+      ) {
+        return doGlobalStyleHover(
+          workspaceIndex.find("class", usage.name),
+          Range.create(document.positionAt(usage.start), document.positionAt(usage.end))
+        );
+      }
+      return null;
+    },
+
+    findDocumentSymbols(document: TextDocument): SymbolInformation[] | null {
+      if (!isEnabled("documentSymbols")) {
+        return null;
+      }
+      const symbols: SymbolInformation[] = [];
+      for (const templateDocument of styledJsxDocuments.get(document).getTemplates()) {
+        const { cssDocument, stylesheet } = templateDocument;
+        const cssLanguageService = getCssLanguageService(cssDocument);
+        symbols.push(
+          ...addSymbolScopes(
+            templateDocument,
+            cssLanguageService.findDocumentSymbols(cssDocument, stylesheet)
+          )
+        );
+      }
+      return symbols;
+    },
+
+    findDefinition(document: TextDocument, position: Position): Definition | null {
+      if (!isEnabled("navigation")) {
+        return null;
+      }
+
+      const templateDocument = getTemplateAt(document, position);
+      if (templateDocument) {
+        const { cssDocument, stylesheet } = templateDocument;
+        const cssLanguageService = getCssLanguageService(cssDocument);
+        const definition = cssLanguageService.findDefinition(cssDocument, position, stylesheet);
+        // custom properties and keyframes defined in other files
+        const reference =
+          !definition &&
+          isEnabled("workspaceIndex") &&
+          findGlobalStyleReference(templateDocument, position);
+        return reference
+          ? workspaceIndex.find(reference.kind, reference.name).map((style) => style.location)
+          : definition;
+      }
+
+      const styledJsx: StyledJsx | undefined = isEnabled("classNames")
+        ? getStyledJsx(document)
+        : undefined;
+      if (styledJsx) {
+        return findClassNameDefinition(
+          typescript,
+          document,
+          styledJsx,
+          position,
+          getGlobalClasses()
+        );
+      }
+      return null;
+    },
+
+    findReferences(document: TextDocument, position: Position): Location[] | null {
+      if (!isEnabled("navigation")) {
+        return null;
+      }
+
+      const templateDocument = getTemplateAt(document, position);
+      const styledJsx: StyledJsx | undefined = isEnabled("classNames")
+        ? getStyledJsx(document)
+        : undefined;
+      const locations: Location[] = [];
+      if (templateDocument) {
+        const { cssDocument, stylesheet } = templateDocument;
+        const cssLanguageService = getCssLanguageService(cssDocument);
+        locations.push(...cssLanguageService.findReferences(cssDocument, position, stylesheet));
+      }
+      if (styledJsx) {
+        locations.push(...findClassNameReferences(typescript, document, styledJsx, position));
+      }
+      return locations;
+    },
+
+    findDocumentHighlights(document: TextDocument, position: Position): DocumentHighlight[] | null {
+      if (!isEnabled("navigation")) {
+        return null;
+      }
+
+      const templateDocument = getTemplateAt(document, position);
+      if (templateDocument) {
+        const { cssDocument, stylesheet } = templateDocument;
+        const cssLanguageService = getCssLanguageService(cssDocument);
+        return cssLanguageService.findDocumentHighlights(cssDocument, position, stylesheet);
+      }
+      return null;
+    },
+
+    findDocumentLinks(document: TextDocument): DocumentLink[] | null {
+      if (!isEnabled("documentLinks")) {
+        return null;
+      }
+      const styledJsx: StyledJsx | undefined = getStyledJsx(document);
+      return styledJsx
+        ? findStyledJsxLinks(
+            document,
+            styledJsx,
+            getCssLanguageService(styledJsx.cssDocument),
+            getPublicDirectory()
+          )
+        : [];
+    },
+
+    doCodeActions(
+      document: TextDocument,
+      range: Range,
+      context: CodeActionContext
+    ): (Command | CodeAction)[] | null {
+      if (!isEnabled("codeActions")) {
+        return null;
+      }
+
+      const quickFixes =
+        !context.only || context.only.some((kind) => CodeActionKind.QuickFix.indexOf(kind) === 0);
+      const templateDocument = getTemplateAt(document, range.start);
+      if (templateDocument) {
+        const { cssDocument, stylesheet, template } = templateDocument;
+        const cssLanguageService = getCssLanguageService(cssDocument);
+        const actions: (Command | CodeAction)[] = cssLanguageService.doCodeActions(
+          cssDocument,
+          range,
+          context,
+          stylesheet
+        );
+        if (quickFixes && codeActionLiteralSupport) {
+          actions.push(...getVendorPrefixFixes(document, context.diagnostics));
+        }
+        const sourceFile = styledJsxDocuments.get(document).sourceFile;
+        const refactors =
+          !context.only ||
+          context.only.some(
+            (kind) =>
+              (CodeActionKind.Refactor + ".").indexOf(kind + ".") === 0 ||
+              kind.indexOf(CodeActionKind.Refactor + ".") === 0
+          );
+        if (sourceFile && refactors && codeActionLiteralSupport) {
+          actions.push(
+            ...getStyledJsxRefactors(typescript, document, sourceFile, template, {
+              modules: getStyledJsxOptions(document).modules || [],
+              createFiles,
+            })
+          );
+        }
+        return actions;
+      }
+
+      const conversion =
+        quickFixes && codeActionLiteralSupport && getInlineStyleConversion(document, range.start);
+      if (conversion && !(conversion instanceof ResponseError)) {
+        // an unknown property and the like are shown before the rule is written
+        const { edit, warnings } = conversion;
+        return [
+          {
+            title:
+              "Convert inline style to a styled-jsx rule" +
+              (warnings.length > 0 ? ` (${warnings.join("; ")})` : ""),
+            kind: CodeActionKind.QuickFix,
+            edit,
+          },
+          {
+            title: "Convert inline style to a styled-jsx rule with a class name...",
+            kind: CodeActionKind.QuickFix,
+            command: Command.create(
+              "Convert inline style",
+              "styledJsx.convertInlineStyle",
+              document.uri,
+              range.start,
+              warnings
+            ),
+          },
+        ];
+      }
+      return null;
+    },
+
+    doStylelintValidation(
+      document: TextDocument,
+      settings?: StyledJsxSettings
+    ): Promise<Diagnostic[]> {
+      if (settings) {
+        setStyledJsxOptions(document, createStyledJsxOptions(document, settings));
+      }
+      const documentSettings = settings || globalSettings;
+      const styledJsx: StyledJsx | undefined = getStyledJsx(document);
+      if (
+        !styledJsx ||
+        documentSettings.validate === false ||
+        !isFeatureEnabled(documentSettings, "stylelint")
+      ) {
+        return Promise.resolve([]);
+      }
+      return stylelintRunner.lint(document, styledJsx);
+    },
+
+    doStylelintCodeActions(
+      document: TextDocument,
+      range: Range,
+      context: CodeActionContext
+    ): Promise<CodeAction[]> {
+      const styledJsx: StyledJsx | undefined = getStyledJsx(document);
+      if (
+        !styledJsx ||
+        !isEnabled("codeActions") ||
+        !isEnabled("stylelint") ||
+        !codeActionLiteralSupport
+      ) {
+        return Promise.resolve([]);
+      }
+      const dialect = styledJsx.cssDocument.languageId;
+      const fixAllKind = CodeActionKind.SourceFixAll + ".stylelint";
+      // source actions are only given when they are asked for
+      const isRequested = (kind: string): boolean =>
+        context.only
+          ? context.only.some((only) => (kind + ".").indexOf(only + ".") === 0)
+          : kind === CodeActionKind.QuickFix;
+
+      if (isRequested(fixAllKind)) {
+        return Promise.all(
+          styledJsx.styledJsxTaggedTemplates.map((template) =>
+            stylelintRunner.fix(document, template, dialect)
+          )
+        ).then((fixes) => {
+          const edits = fixes.filter((edit): edit is TextEdit => !!edit);
+          return edits.length > 0
+            ? [
+                {
+                  title: "Fix all stylelint problems",
+                  kind: fixAllKind,
+                  edit: { changes: { [document.uri]: edits } },
+                },
+              ]
+            : [];
+        });
+      }
+
+      // the fixes of a template are offered where stylelint reported something
+      const templateDocument = getTemplateAt(document, range.start);
+      const diagnostics = context.diagnostics.filter(
+        (diagnostic) => diagnostic.source === "stylelint"
+      );
+      if (!templateDocument || diagnostics.length === 0 || !isRequested(CodeActionKind.QuickFix)) {
+        return Promise.resolve([]);
+      }
+      return stylelintRunner.fix(document, templateDocument.template, dialect).then((edit) =>
+        edit
+          ? [
+              {
+                title: "Fix all stylelint problems in this template",
+                kind: CodeActionKind.QuickFix,
+                diagnostics,
+                edit: { changes: { [document.uri]: [edit] } },
+              },
+            ]
+          : []
+      );
+    },
+
+    findDocumentColors(document: TextDocument): ColorInformation[] {
+      const colors: ColorInformation[] = [];
+      if (!isEnabled("colors")) {
+        return colors;
+      }
+      const styledJsxDocument = styledJsxDocuments.get(document);
+      for (const { cssDocument, stylesheet } of styledJsxDocument.getTemplates()) {
+        const cssLanguageService = getCssLanguageService(cssDocument);
+        colors.push(...cssLanguageService.findDocumentColors(cssDocument, stylesheet));
+      }
+      return getInterpolationColors(document, styledJsxDocument.styledJsxTaggedTemplates, colors);
+    },
+
+    getColorPresentations(document: TextDocument, color: Color, range: Range): ColorPresentation[] {
+      if (!isEnabled("colors")) {
+        return [];
+      }
+      const templateDocument = getTemplateAt(document, range.start);
+      // the color of a resolved interpolation is set where its value is declared
+      if (
+        templateDocument &&
+        !isInInterpolation(
+          [templateDocument.template],
+          document.offsetAt(range.start),
+          document.offsetAt(range.end)
+        )
+      ) {
+        const { cssDocument, stylesheet } = templateDocument;
+        const cssLanguageService = getCssLanguageService(cssDocument);
+        return cssLanguageService.getColorPresentations(cssDocument, stylesheet, color, range);
+      }
+      return [];
+    },
+
+    prepareRename(document: TextDocument, position: Position): Range | ResponseError<void> | null {
+      if (!isEnabled("rename")) {
+        return null;
+      }
+
+      const styledJsx: StyledJsx | undefined = isEnabled("classNames")
+        ? getStyledJsx(document)
+        : undefined;
+      const classNameRange =
+        styledJsx && prepareClassNameRename(typescript, document, styledJsx, position);
+      if (classNameRange) {
+        return classNameRange;
+      }
+
+      // other symbols are renamed by the CSS service, which highlights the same ones
+      const templateDocument = getTemplateAt(document, position);
+      if (templateDocument) {
+        const { cssDocument, stylesheet } = templateDocument;
+        const cssLanguageService = getCssLanguageService(cssDocument);
+        const offset = cssDocument.offsetAt(position);
+        const highlight = cssLanguageService
+          .findDocumentHighlights(cssDocument, position, stylesheet)
+          .find(
+            (item) =>
+              cssDocument.offsetAt(item.range.start) <= offset &&
+              offset <= cssDocument.offsetAt(item.range.end)
+          );
+        return highlight ? highlight.range : null;
+      }
+      return null;
+    },
+
+    doRename(
+      document: TextDocument,
+      position: Position,
+      newName: string
+    ): WorkspaceEdit | ResponseError<void> | null {
+      if (!isEnabled("rename")) {
+        return null;
+      }
+
+      const styledJsx: StyledJsx | undefined = isEnabled("classNames")
+        ? getStyledJsx(document)
+        : undefined;
+      const classNameEdit =
+        styledJsx && doClassNameRename(typescript, document, styledJsx, position, newName);
+      if (classNameEdit) {
+        return classNameEdit;
+      }
+
+      const templateDocument = getTemplateAt(document, position);
+      if (templateDocument) {
+        const { cssDocument, stylesheet } = templateDocument;
+        const cssLanguageService = getCssLanguageService(cssDocument);
+        return cssLanguageService.doRename(cssDocument, position, newName, stylesheet);
+      }
+      return null;
+    },
+
+    format(
+      document: TextDocument,
+      range: Range | undefined,
+      options: FormattingOptions
+    ): TextEdit[] | null {
+      if (!isEnabled("format")) {
+        return null;
+      }
+      return formatStyledJsx(
+        document,
+        styledJsxDocuments.get(document).styledJsxTaggedTemplates,
+        options,
+        range
+      );
+    },
+
+    getFoldingRanges(
+      document: TextDocument,
+      context: { rangeLimit?: number } = {}
+    ): FoldingRange[] | null {
+      if (!isEnabled("folding")) {
+        return null;
+      }
+      return getStyledJsxFoldingRanges(
+        styledJsxDocuments.get(document),
+        cssLanguageServices[getStyledJsxOptions(document).dialect || "scss"],
+        context.rangeLimit
+      );
+    },
+
+    getSelectionRanges(document: TextDocument, positions: Position[]): SelectionRange[] {
+      if (!isEnabled("selectionRange")) {
+        return positions.map((position) => SelectionRange.create(Range.create(position, position)));
+      }
+      return getStyledJsxSelectionRanges(
+        document,
+        styledJsxDocuments.get(document),
+        cssLanguageServices[getStyledJsxOptions(document).dialect || "scss"],
+        positions
+      );
+    },
+
+    getSemanticTokens(document: TextDocument, range?: Range): Proposed.SemanticTokens | null {
+      const styledJsxDocument = styledJsxDocuments.get(document);
+      // without templates the client keeps the highlighting of other servers
+      if (!isEnabled("semanticTokens") || styledJsxDocument.getTemplates().length === 0) {
+        return null;
+      }
+      return getStyledJsxSemanticTokens(
+        styledJsxDocument,
+        ({ cssDocument, stylesheet }) =>
+          getCssLanguageService(cssDocument).findDocumentColors(cssDocument, stylesheet),
+        range
+      );
+    },
+
+    findWorkspaceSymbols(query: string): SymbolInformation[] | null {
+      if (!isEnabled("workspaceIndex")) {
+        return null;
+      }
+      return getWorkspaceSymbols(workspaceIndex, query);
+    },
+
+    convertInlineStyle(
+      document: TextDocument,
+      position: Position,
+      className?: string
+    ): WorkspaceEdit | ResponseError<void> | null {
+      if (!isEnabled("codeActions")) {
+        return null;
+      }
+      const conversion = getInlineStyleConversion(document, position, className);
+      return conversion && !(conversion instanceof ResponseError) ? conversion.edit : conversion;
+    },
+
+    getExtractedCss(document: TextDocument): string | null {
+      return getExtractedCss(styledJsxDocuments.get(document));
+    },
+
+    getCompiledOutput(document: TextDocument): string | null {
+      return getCompiledOutput(typescript, document, styledJsxDocuments.get(document));
+    },
+
+    indexDocument(document: TextDocument): void {
+      const fileName = getFileName(document.uri);
+      if (fileName && isEnabled("workspaceIndex")) {
+        workspaceIndex.set(
+          fileName,
+          findGlobalStyles(styledJsxDocuments.get(document).getTemplates())
+        );
+      }
+    },
+
+    // Files that aren't open are read from disk, without keeping them in the cache
+    indexFile(fileName: string): void {
+      if (!isEnabled("workspaceIndex")) {
+        return;
+      }
+      let text: string;
+      try {
+        text = fs.readFileSync(fileName, "utf8");
+      } catch (e) {
+        workspaceIndex.remove(fileName);
+        return;
+      }
+      // parsed as the editor would parse the file once it's opened
+      const document = TextDocument.create(
+        pathToFileURL(fileName).href,
+        getLanguageId(fileName) || "javascript",
+        0,
+        text
+      );
+      const styledJsxDocument = createStyledJsxDocument(
+        typescript,
+        document,
+        createStyledJsxOptions(document, globalSettings),
+        (cssDocument) => getCssLanguageService(cssDocument).parseStylesheet(cssDocument)
+      );
+      workspaceIndex.set(fileName, findGlobalStyles(styledJsxDocument.getTemplates()));
+    },
+
+    removeFromIndex(fileName: string): void {
+      workspaceIndex.remove(fileName);
+    },
+
+    clearIndex(): void {
+      workspaceIndex.clear();
+    },
+
+    onConfigFilesChanged(): void {
+      clearBabelConfigCache();
+      interpolationResolver.reset();
+      stylelintRunner.reset();
+      resetStyledJsxOptions();
+    },
+
+    onDocumentRemoved(document: TextDocument): void {
+      styledJsxDocuments.onDocumentRemoved(document);
+      interpolationResolver.onDocumentRemoved(document);
+      delete documentOptions[document.uri];
+      delete validationSettings[document.uri];
+    },
+
+    dispose(): void {
+      styledJsxDocuments.dispose();
+      interpolationResolver.dispose();
+      workspaceIndex.clear();
+    },
+  };
+}
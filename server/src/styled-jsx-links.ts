@@ -0,0 +1,244 @@
+/* eslint-disable no-unused-vars */
+import * as fs from "fs";
+import * as path from "path";
+import { fileURLToPath, pathToFileURL } from "url";
+import {
+  Command,
+  CompletionItem,
+  CompletionItemKind,
+  Diagnostic,
+  DocumentLink,
+  Position,
+  Range,
+  TextEdit,
+} from "vscode-languageserver";
+import { TextDocument } from "vscode-languageserver-textdocument";
+import {
+  DocumentContext,
+  ICompletionParticipant,
+  LanguageService,
+} from "vscode-css-languageservice";
+import { StyledJsx, StyledJsxTaggedTemplate, isInInterpolation } from "./styled-jsx-utils";
+import { StyledJsxSettings } from "./styled-jsx-settings";
+import { missingFileRule, getSeverity, createDiagnostic } from "./styled-jsx-rules";
+
+// the directory Next.js serves at /
+export const defaultPublicDirectory: string = "public";
+
+function getFileName(document: TextDocument): string | undefined {
+  try {
+    return fileURLToPath(document.uri);
+  } catch (e) {
+    // not a file on disk, so there is nothing to resolve against
+    return undefined;
+  }
+}
+
+// The directory of the nearest package.json, or the directory itself without one
+function findProjectRoot(directory: string): string {
+  for (let current = directory; ; current = path.dirname(current)) {
+    if (fs.existsSync(path.join(current, "package.json"))) {
+      return current;
+    }
+    if (path.dirname(current) === current) {
+      return directory;
+    }
+  }
+}
+
+function getPublicDirectory(fileName: string, publicDirectory: string): string {
+  return path.resolve(findProjectRoot(path.dirname(fileName)), publicDirectory);
+}
+
+// The file a reference of url() or @import stands for: relative to the host file, or to
+// the public directory when it starts with /. URLs with a scheme and modules aren't files.
+function resolveReferencePath(
+  reference: string,
+  fileName: string,
+  publicDirectory: string
+): string | undefined {
+  if (/^([a-zA-Z][\w+.-]*:|\/\/|~|#)/.test(reference)) {
+    return undefined;
+  }
+  let filePath = reference.replace(/[?#].*$/, "");
+  try {
+    filePath = decodeURIComponent(filePath);
+  } catch (e) {
+    // a % that isn't an escape is part of the name
+  }
+  if (!filePath) {
+    return undefined;
+  }
+  return filePath.charAt(0) === "/"
+    ? path.join(getPublicDirectory(fileName, publicDirectory), filePath)
+    : path.resolve(path.dirname(fileName), filePath);
+}
+
+function getDocumentContext(fileName: string, publicDirectory: string): DocumentContext {
+  return {
+    resolveReference(reference: string): string {
+      const filePath = resolveReferencePath(reference, fileName, publicDirectory);
+      // an empty target is no link
+      return filePath ? pathToFileURL(filePath).toString() : "";
+    },
+  };
+}
+
+function unquote(text: string): string {
+  return /^(["']).*\1$/.test(text) ? text.slice(1, -1) : text;
+}
+
+// The links of the url() and @import of the templates, but those made of interpolations
+export function findStyledJsxLinks(
+  document: TextDocument,
+  styledJsx: StyledJsx,
+  cssLanguageService: LanguageService,
+  publicDirectory: string = defaultPublicDirectory
+): DocumentLink[] {
+  const fileName = getFileName(document);
+  if (!fileName) {
+    return [];
+  }
+  const { cssDocument, stylesheet, styledJsxTaggedTemplates } = styledJsx;
+  return cssLanguageService
+    .findDocumentLinks(cssDocument, stylesheet, getDocumentContext(fileName, publicDirectory))
+    .filter(
+      (link) =>
+        !!link.target &&
+        !isInInterpolation(
+          styledJsxTaggedTemplates,
+          cssDocument.offsetAt(link.range.start),
+          cssDocument.offsetAt(link.range.end)
+        )
+    );
+}
+
+// References to files that don't exist
+export function doLinkValidation(
+  document: TextDocument,
+  styledJsx: StyledJsx,
+  cssLanguageService: LanguageService,
+  settings: StyledJsxSettings | undefined
+): Diagnostic[] {
+  const severity = getSeverity(missingFileRule, settings && settings.lint);
+  if (severity === undefined) {
+    return [];
+  }
+  const publicDirectory = (settings && settings.publicDirectory) || defaultPublicDirectory;
+  const diagnostics: Diagnostic[] = [];
+  for (const link of findStyledJsxLinks(document, styledJsx, cssLanguageService, publicDirectory)) {
+    if (!link.target || link.target.indexOf("file:") !== 0) {
+      continue;
+    }
+    const filePath = fileURLToPath(link.target);
+    if (fs.existsSync(filePath)) {
+      continue;
+    }
+    const reference = unquote(document.getText(link.range));
+    diagnostics.push(
+      createDiagnostic(
+        document,
+        document.offsetAt(link.range.start),
+        document.offsetAt(link.range.end),
+        reference.charAt(0) === "/"
+          ? `Can't find '${reference}' in ${publicDirectory}`
+          : `Can't find '${reference}'`,
+        missingFileRule,
+        severity
+      )
+    );
+  }
+  return diagnostics;
+}
+
+function readDirectory(directory: string): { name: string; isDirectory: boolean }[] {
+  try {
+    return fs.readdirSync(directory).map((name) => {
+      let isDirectory = false;
+      try {
+        isDirectory = fs.statSync(path.join(directory, name)).isDirectory();
+      } catch (e) {
+        // a broken link is listed as a file
+      }
+      return { name, isDirectory };
+    });
+  } catch (e) {
+    return [];
+  }
+}
+
+// The files and directories next to what is typed before the cursor, replacing the
+// last segment of the path
+function getPathCompletions(
+  fileName: string,
+  publicDirectory: string,
+  value: string,
+  range: Range,
+  position: Position
+): CompletionItem[] {
+  const quoted = /^["']/.test(value);
+  const valueStart = range.start.character + (quoted ? 1 : 0);
+  if (range.start.line !== position.line || position.character < valueStart) {
+    return [];
+  }
+  const valueBeforeCursor = unquote(value).slice(0, position.character - valueStart);
+  const slash = valueBeforeCursor.lastIndexOf("/");
+  const directoryPart = valueBeforeCursor.slice(0, slash + 1);
+  const directory = directoryPart
+    ? resolveReferencePath(directoryPart, fileName, publicDirectory)
+    : path.dirname(fileName);
+  if (!directory) {
+    return [];
+  }
+
+  const end =
+    quoted && /["']$/.test(value) && value.length > 1
+      ? range.end.character - 1
+      : range.end.character;
+  const replaceRange = Range.create(
+    Position.create(position.line, valueStart + slash + 1),
+    Position.create(range.end.line, Math.max(end, position.character))
+  );
+  return readDirectory(directory)
+    .filter((entry) => path.join(directory, entry.name) !== fileName)
+    .map((entry) =>
+      entry.isDirectory
+        ? {
+            label: entry.name + "/",
+            kind: CompletionItemKind.Folder,
+            textEdit: TextEdit.replace(replaceRange, entry.name + "/"),
+            // the files of the directory come next
+            command: Command.create("Suggest", "editor.action.triggerSuggest"),
+          }
+        : {
+            label: entry.name,
+            kind: CompletionItemKind.File,
+            textEdit: TextEdit.replace(replaceRange, entry.name),
+          }
+    );
+}
+
+// Collects the paths to complete in url() and @import of the template while the CSS
+// service completes it
+export function getPathCompletionParticipant(
+  document: TextDocument,
+  template: StyledJsxTaggedTemplate,
+  publicDirectory: string,
+  items: CompletionItem[]
+): ICompletionParticipant {
+  const fileName = getFileName(document);
+  const complete = (value: string, range: Range, position: Position) => {
+    const inInterpolation = isInInterpolation(
+      [template],
+      document.offsetAt(range.start),
+      document.offsetAt(range.end)
+    );
+    if (fileName && !inInterpolation) {
+      items.push(...getPathCompletions(fileName, publicDirectory, value, range, position));
+    }
+  };
+  return {
+    onCssURILiteralValue: ({ uriValue, range, position }) => complete(uriValue, range, position),
+    onCssImportPath: ({ pathValue, range, position }) => complete(pathValue, range, position),
+  };
+}
@@ -0,0 +1,283 @@
+#!/usr/bin/env node
+/* eslint-disable no-unused-vars */
+import * as fs from "fs";
+import * as path from "path";
+import { pathToFileURL } from "url";
+import { DiagnosticSeverity } from "vscode-languageserver";
+import { TextDocument } from "vscode-languageserver-textdocument";
+import { StyledJsxSettings, mergeSettings } from "./styled-jsx-settings";
+import { getStyledJsxLanguageService, getLanguageId } from "./styled-jsx-language-service";
+import { LintResult, formatters } from "./styled-jsx-lint-formatters";
+
+const usage = `Usage: styled-jsx-lint [options] <files, directories or globs...>
+
+Lints the styled-jsx styles of .js, .jsx, .ts and .tsx files.
+
+Options:
+  --format <name>   stylish, json, sarif or checkstyle (default: stylish)
+  --fail-on <level> error, warning, info or hint (default: error)
+  --config <file>   VS Code settings to read styledJsx.* and css.* from
+                    (default: .vscode/settings.json)
+  --help            Show this message
+`;
+
+const failOnLevels: { [level: string]: DiagnosticSeverity } = {
+  error: DiagnosticSeverity.Error,
+  warning: DiagnosticSeverity.Warning,
+  info: DiagnosticSeverity.Information,
+  hint: DiagnosticSeverity.Hint,
+};
+
+const styledJsxLanguageService = getStyledJsxLanguageService();
+
+interface CliOptions {
+  patterns: string[];
+  format: string;
+  failOn: DiagnosticSeverity;
+  config?: string;
+}
+
+class UsageError extends Error {
+  constructor(message: string) {
+    super(message);
+    // compiled to ES5, instanceof needs the prototype set back
+    Object.setPrototypeOf(this, UsageError.prototype);
+  }
+}
+
+function parseArguments(args: string[]): CliOptions | undefined {
+  const options: CliOptions = { patterns: [], format: "stylish", failOn: DiagnosticSeverity.Error };
+  for (let i = 0; i < args.length; i++) {
+    const arg = args[i];
+    if (arg === "--help" || arg === "-h") {
+      return undefined;
+    }
+    if (arg.indexOf("--") !== 0) {
+      options.patterns.push(arg);
+      continue;
+    }
+    // both --name value and --name=value
+    const [name, inlineValue] = arg.split(/=(.*)/);
+    const value = inlineValue !== undefined ? inlineValue : args[++i];
+    if (value === undefined) {
+      throw new UsageError(`${name} needs a value`);
+    }
+    switch (name) {
+      case "--format":
+        if (!formatters[value]) {
+          throw new UsageError(`Unknown format ${value}`);
+        }
+        options.format = value;
+        break;
+      case "--fail-on":
+        if (!failOnLevels[value]) {
+          throw new UsageError(`Unknown level ${value}`);
+        }
+        options.failOn = failOnLevels[value];
+        break;
+      case "--config":
+        options.config = value;
+        break;
+      default:
+        throw new UsageError(`Unknown option ${name}`);
+    }
+  }
+  if (options.patterns.length === 0) {
+    throw new UsageError("No files given");
+  }
+  return options;
+}
+
+// settings.json may have comments and trailing commas
+function stripJsonComments(text: string): string {
+  let result = "";
+  for (let i = 0; i < text.length; i++) {
+    const char = text.charAt(i);
+    if (char === '"') {
+      const start = i;
+      for (i++; i < text.length && text.charAt(i) !== '"'; i++) {
+        if (text.charAt(i) === "\\") {
+          i++;
+        }
+      }
+      result += text.slice(start, i + 1);
+    } else if (char === "/" && text.charAt(i + 1) === "/") {
+      while (i < text.length && text.charAt(i) !== "\n") {
+        i++;
+      }
+      result += "\n";
+    } else if (char === "/" && text.charAt(i + 1) === "*") {
+      const end = text.indexOf("*/", i + 2);
+      i = end === -1 ? text.length : end + 1;
+    } else if (char === "," && /^\s*[}\]]/.test(text.slice(i + 1))) {
+      continue;
+    } else {
+      result += char;
+    }
+  }
+  return result;
+}
+
+// "styledJsx.lint.unusedSelector": "error" becomes { styledJsx: { lint: { unusedSelector: "error" } } }
+function expandDottedKeys(flat: { [key: string]: any }): { [key: string]: any } {
+  const result: { [key: string]: any } = {};
+  for (const key of Object.keys(flat)) {
+    const names = key.split(".");
+    let target = result;
+    for (const name of names.slice(0, -1)) {
+      if (typeof target[name] !== "object" || target[name] === null) {
+        target[name] = {};
+      }
+      target = target[name];
+    }
+    const last = names[names.length - 1];
+    const value = flat[key];
+    target[last] =
+      typeof value === "object" && value !== null && !Array.isArray(value)
+        ? mergeSettings(expandDottedKeys(value), target[last])
+        : value;
+  }
+  return result;
+}
+
+function readSettings(configPath: string | undefined): StyledJsxSettings {
+  const file = configPath || path.join(process.cwd(), ".vscode", "settings.json");
+  if (!configPath && !fs.existsSync(file)) {
+    return {};
+  }
+  let settings: { [key: string]: any };
+  try {
+    settings = expandDottedKeys(JSON.parse(stripJsonComments(fs.readFileSync(file, "utf8"))));
+  } catch (e) {
+    throw new UsageError(`Can't read the settings in ${file}: ${e.message}`);
+  }
+  return mergeSettings(settings.styledJsx, settings.css);
+}
+
+function globToRegExp(glob: string): RegExp {
+  let source = "";
+  for (let i = 0; i < glob.length; i++) {
+    const char = glob.charAt(i);
+    if (char === "*" && glob.charAt(i + 1) === "*") {
+      // **/ matches any number of directories, including none
+      source += glob.charAt(i + 2) === "/" ? "(?:.*/)?" : ".*";
+      i += glob.charAt(i + 2) === "/" ? 2 : 1;
+    } else if (char === "*") {
+      source += "[^/]*";
+    } else if (char === "?") {
+      source += "[^/]";
+    } else if (char === "{") {
+      source += "(?:";
+    } else if (char === "}") {
+      source += ")";
+    } else if (char === ",") {
+      source += "|";
+    } else {
+      source += char.replace(/[.+^$()|[\]\\]/g, "\\$&");
+    }
+  }
+  return new RegExp(`^${source}$`);
+}
+
+function walk(dir: string, files: string[]): void {
+  for (const name of fs.readdirSync(dir)) {
+    if (name === "node_modules" || name.charAt(0) === ".") {
+      continue;
+    }
+    const file = path.join(dir, name);
+    if (fs.statSync(file).isDirectory()) {
+      walk(file, files);
+    } else if (getLanguageId(name)) {
+      files.push(file);
+    }
+  }
+}
+
+function findFiles(patterns: string[]): string[] {
+  const files: string[] = [];
+  for (const pattern of patterns) {
+    if (fs.existsSync(pattern)) {
+      if (fs.statSync(pattern).isDirectory()) {
+        walk(pattern, files);
+      } else {
+        files.push(pattern);
+      }
+      continue;
+    }
+    // walk from the part of the glob without wildcards
+    const segments = pattern.replace(/\\/g, "/").split("/");
+    const baseSegments: string[] = [];
+    while (segments.length > 1 && !/[*?{]/.test(segments[0])) {
+      baseSegments.push(segments.shift() as string);
+    }
+    const base = baseSegments.join("/") || ".";
+    const matcher = globToRegExp(segments.join("/"));
+    const candidates: string[] = [];
+    if (fs.existsSync(base)) {
+      walk(base, candidates);
+    }
+    for (const file of candidates) {
+      if (matcher.test(path.relative(base, file).replace(/\\/g, "/"))) {
+        files.push(file);
+      }
+    }
+  }
+  return files.filter((file, index) => files.indexOf(file) === index);
+}
+
+export function lintFile(filePath: string, settings: StyledJsxSettings): LintResult {
+  const absolutePath = path.resolve(filePath);
+  const document = TextDocument.create(
+    pathToFileURL(absolutePath).href,
+    getLanguageId(filePath) || "javascript",
+    0,
+    fs.readFileSync(absolutePath, "utf8")
+  );
+  const diagnostics = styledJsxLanguageService.doValidation(document, settings);
+  // files are linted once, there's no need to keep them
+  styledJsxLanguageService.onDocumentRemoved(document);
+  return { filePath, diagnostics };
+}
+
+function main(args: string[]): number {
+  let options: CliOptions | undefined;
+  let settings: StyledJsxSettings;
+  try {
+    options = parseArguments(args);
+    if (!options) {
+      process.stdout.write(usage);
+      return 0;
+    }
+    settings = readSettings(options.config);
+  } catch (e) {
+    if (e instanceof UsageError) {
+      process.stderr.write(`${e.message}\n\n${usage}`);
+      return 2;
+    }
+    throw e;
+  }
+
+  styledJsxLanguageService.configure(settings);
+
+  const files = findFiles(options.patterns);
+  if (files.length === 0) {
+    process.stderr.write(`No files match ${options.patterns.join(" ")}\n`);
+    return 2;
+  }
+
+  const results = files.map((file) => lintFile(file, settings));
+  const output = formatters[options.format](results);
+  process.stdout.write(output && !/\n$/.test(output) ? `${output}\n` : output);
+
+  const failOn = options.failOn;
+  const failed = results.some((result) =>
+    result.diagnostics.some(
+      (diagnostic) => (diagnostic.severity || DiagnosticSeverity.Error) <= failOn
+    )
+  );
+  return failed ? 1 : 0;
+}
+
+if (require.main === module) {
+  process.exitCode = main(process.argv.slice(2));
+}
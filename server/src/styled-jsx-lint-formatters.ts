@@ -0,0 +1,194 @@
+/* eslint-disable no-unused-vars */
+import { Diagnostic, DiagnosticSeverity } from "vscode-languageserver";
+import { pathToFileURL } from "url";
+import { styledJsxRules } from "./styled-jsx-rules";
+
+export interface LintResult {
+  filePath: string;
+  diagnostics: Diagnostic[];
+}
+
+export type LintFormatter = (results: LintResult[]) => string;
+
+const severityNames: { [severity: number]: string } = {
+  [DiagnosticSeverity.Error]: "error",
+  [DiagnosticSeverity.Warning]: "warning",
+  [DiagnosticSeverity.Information]: "info",
+  [DiagnosticSeverity.Hint]: "hint",
+};
+
+function getSeverityName(diagnostic: Diagnostic): string {
+  return severityNames[diagnostic.severity || DiagnosticSeverity.Error];
+}
+
+function getRuleId(diagnostic: Diagnostic): string {
+  return diagnostic.code !== undefined ? String(diagnostic.code) : "";
+}
+
+function pad(text: string, length: number): string {
+  return text + " ".repeat(Math.max(length - text.length, 0));
+}
+
+// Lines and columns of a diagnostic, both 1-based
+function getLocation(diagnostic: Diagnostic) {
+  const { start, end } = diagnostic.range;
+  return {
+    line: start.line + 1,
+    column: start.character + 1,
+    endLine: end.line + 1,
+    endColumn: end.character + 1,
+  };
+}
+
+function pluralize(count: number, noun: string): string {
+  return `${count} ${noun}${count === 1 ? "" : "s"}`;
+}
+
+export function formatStylish(results: LintResult[]): string {
+  let output = "";
+  const counts: { [severity: string]: number } = { error: 0, warning: 0, info: 0, hint: 0 };
+
+  for (const { filePath, diagnostics } of results) {
+    if (diagnostics.length === 0) {
+      continue;
+    }
+    const rows = diagnostics.map((diagnostic) => {
+      const { line, column } = getLocation(diagnostic);
+      counts[getSeverityName(diagnostic)]++;
+      return [
+        `${line}:${column}`,
+        getSeverityName(diagnostic),
+        diagnostic.message,
+        getRuleId(diagnostic),
+      ];
+    });
+    const widths = [0, 1, 2].map((i) => Math.max(...rows.map((row) => row[i].length)));
+    output += `\n${filePath}\n`;
+    for (const row of rows) {
+      output += `  ${row.map((cell, i) => (i < 3 ? pad(cell, widths[i]) : cell)).join("  ")}\n`;
+    }
+  }
+
+  const total = counts.error + counts.warning + counts.info + counts.hint;
+  if (total === 0) {
+    return "";
+  }
+  const summary = [
+    pluralize(counts.error, "error"),
+    pluralize(counts.warning, "warning"),
+    pluralize(counts.info + counts.hint, "info"),
+  ].join(", ");
+  return `${output}\n${pluralize(total, "problem")} (${summary})\n`;
+}
+
+export function formatJson(results: LintResult[]): string {
+  return JSON.stringify(
+    results.map(({ filePath, diagnostics }) => ({
+      filePath,
+      messages: diagnostics.map((diagnostic) => ({
+        ruleId: getRuleId(diagnostic) || null,
+        severity: getSeverityName(diagnostic),
+        message: diagnostic.message,
+        source: diagnostic.source,
+        ...getLocation(diagnostic),
+      })),
+    })),
+    null,
+    2
+  );
+}
+
+const sarifLevels: { [severity: number]: string } = {
+  [DiagnosticSeverity.Error]: "error",
+  [DiagnosticSeverity.Warning]: "warning",
+  [DiagnosticSeverity.Information]: "note",
+  [DiagnosticSeverity.Hint]: "note",
+};
+
+export function formatSarif(results: LintResult[]): string {
+  const ruleIds: string[] = [];
+  for (const { diagnostics } of results) {
+    for (const diagnostic of diagnostics) {
+      const ruleId = getRuleId(diagnostic);
+      if (ruleId && ruleIds.indexOf(ruleId) === -1) {
+        ruleIds.push(ruleId);
+      }
+    }
+  }
+
+  const rules = ruleIds.map((id) => {
+    const rule = styledJsxRules.find((item) => item.id === id);
+    return rule ? { id, shortDescription: { text: rule.description } } : { id };
+  });
+
+  const sarifResults = [];
+  for (const { filePath, diagnostics } of results) {
+    for (const diagnostic of diagnostics) {
+      const { line, column, endLine, endColumn } = getLocation(diagnostic);
+      const ruleId = getRuleId(diagnostic);
+      sarifResults.push({
+        ...(ruleId ? { ruleId, ruleIndex: ruleIds.indexOf(ruleId) } : {}),
+        level: sarifLevels[diagnostic.severity || DiagnosticSeverity.Error],
+        message: { text: diagnostic.message },
+        locations: [
+          {
+            physicalLocation: {
+              artifactLocation: { uri: pathToFileURL(filePath).href },
+              region: { startLine: line, startColumn: column, endLine, endColumn },
+            },
+          },
+        ],
+      });
+    }
+  }
+
+  return JSON.stringify(
+    {
+      version: "2.1.0",
+      $schema: "https://json.schemastore.org/sarif-2.1.0.json",
+      runs: [
+        {
+          tool: { driver: { name: "styled-jsx-lint", rules } },
+          results: sarifResults,
+        },
+      ],
+    },
+    null,
+    2
+  );
+}
+
+function escapeXml(text: string): string {
+  return text
+    .replace(/&/g, "&amp;")
+    .replace(/</g, "&lt;")
+    .replace(/>/g, "&gt;")
+    .replace(/"/g, "&quot;")
+    .replace(/'/g, "&apos;");
+}
+
+export function formatCheckstyle(results: LintResult[]): string {
+  let output = '<?xml version="1.0" encoding="utf-8"?>\n<checkstyle version="4.3">\n';
+  for (const { filePath, diagnostics } of results) {
+    output += `  <file name="${escapeXml(filePath)}">\n`;
+    for (const diagnostic of diagnostics) {
+      const { line, column } = getLocation(diagnostic);
+      const severity = getSeverityName(diagnostic);
+      const ruleId = getRuleId(diagnostic);
+      output +=
+        `    <error line="${line}" column="${column}" ` +
+        `severity="${severity === "hint" ? "info" : severity}" ` +
+        `message="${escapeXml(diagnostic.message)}" ` +
+        `source="${escapeXml(ruleId ? `styled-jsx.${ruleId}` : "styled-jsx")}" />\n`;
+    }
+    output += "  </file>\n";
+  }
+  return `${output}</checkstyle>\n`;
+}
+
+export const formatters: { [name: string]: LintFormatter } = {
+  stylish: formatStylish,
+  json: formatJson,
+  sarif: formatSarif,
+  checkstyle: formatCheckstyle,
+};
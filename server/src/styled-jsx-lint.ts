@@ -0,0 +1,231 @@
+/* eslint-disable no-unused-vars */
+import * as ts from "typescript";
+import { Diagnostic, DiagnosticSeverity } from "vscode-languageserver";
+import { TextDocument } from "vscode-languageserver-textdocument";
+import { LintSettings } from "vscode-css-languageservice";
+import { StyledJsx, StyledJsxTaggedTemplate, isInInterpolation } from "./styled-jsx-utils";
+import {
+  StyledJsxRule,
+  styleNotInRootRule,
+  dynamicExternalSelectorRule,
+  duplicateGlobalRule,
+  unrenderedResolveStylesRule,
+  emptyGlobalRule,
+  getSeverity,
+  createDiagnostic,
+} from "./styled-jsx-rules";
+
+type Report = (start: number, end: number, message: string) => void;
+
+function getStyleElement(template: StyledJsxTaggedTemplate): ts.JsxElement {
+  return template.node.parent.parent as ts.JsxElement;
+}
+
+// The outermost element of the JSX the style element is written in
+function getRootElement(typescript: typeof ts, element: ts.JsxElement): ts.Node {
+  let root: ts.Node = element;
+  for (
+    let current = element.parent;
+    current && !typescript.isFunctionLike(current) && !typescript.isClassLike(current);
+    current = current.parent
+  ) {
+    if (typescript.isJsxElement(current) || typescript.isJsxFragment(current)) {
+      root = current;
+    }
+  }
+  return root;
+}
+
+function checkStyleInRoot(
+  typescript: typeof ts,
+  template: StyledJsxTaggedTemplate,
+  report: Report
+): void {
+  const element = getStyleElement(template);
+  const root = getRootElement(typescript, element);
+  // a component may render nothing but global styles
+  if (root !== element && element.parent !== root) {
+    const opener = element.openingElement;
+    report(
+      opener.getStart(),
+      opener.getEnd(),
+      "<style jsx> should be a child of the root element of the component"
+    );
+  }
+}
+
+function checkDuplicateGlobal(template: StyledJsxTaggedTemplate, report: Report): void {
+  const globals = getStyleElement(template).openingElement.attributes.properties.filter(
+    (prop) => !!prop.name && prop.name.getText() === "global"
+  );
+  for (const attribute of globals.slice(1)) {
+    report(attribute.getStart(), attribute.getEnd(), "global is already set on this <style jsx>");
+  }
+}
+
+function checkExternalSelectors(template: StyledJsxTaggedTemplate, report: Report): void {
+  for (const interpolation of template.interpolations) {
+    if (interpolation.kind === "selector") {
+      report(
+        interpolation.start,
+        interpolation.end,
+        "styled-jsx can't compile interpolations in selectors of external styles"
+      );
+    }
+  }
+}
+
+function isReferenced(
+  typescript: typeof ts,
+  name: string,
+  declaration: ts.Node,
+  scope: ts.Node
+): boolean {
+  let referenced = false;
+  const visit = (node: ts.Node) => {
+    if (referenced || node === declaration) {
+      return;
+    }
+    if (typescript.isIdentifier(node) && node.text === name) {
+      // { name: value }, obj.name and <a name={value} /> only share the text
+      const parent = node.parent;
+      const isKey =
+        (typescript.isPropertyAssignment(parent) && parent.name === node) ||
+        (typescript.isPropertyAccessExpression(parent) && parent.name === node) ||
+        (typescript.isBindingElement(parent) && parent.propertyName === node) ||
+        typescript.isJsxAttribute(parent);
+      referenced = !isKey;
+      return;
+    }
+    typescript.forEachChild(node, visit);
+  };
+  visit(scope);
+  return referenced;
+}
+
+function isStylesAccessed(typescript: typeof ts, name: string, scope: ts.Node): boolean {
+  let accessed = false;
+  const visit = (node: ts.Node) => {
+    if (
+      typescript.isPropertyAccessExpression(node) &&
+      node.name.text === "styles" &&
+      typescript.isIdentifier(node.expression) &&
+      node.expression.text === name
+    ) {
+      accessed = true;
+    }
+    if (!accessed) {
+      typescript.forEachChild(node, visit);
+    }
+  };
+  visit(scope);
+  return accessed;
+}
+
+// const { className, styles } = css.resolve`...` needs {styles} in the JSX
+function checkResolveStyles(
+  typescript: typeof ts,
+  template: StyledJsxTaggedTemplate,
+  report: Report
+): void {
+  const tagged = template.node.parent as ts.TaggedTemplateExpression;
+  let declaration: ts.Node = tagged.parent;
+  while (typescript.isParenthesizedExpression(declaration)) {
+    declaration = declaration.parent;
+  }
+  if (!typescript.isVariableDeclaration(declaration)) {
+    // returned or passed on, styles may be rendered elsewhere
+    return;
+  }
+
+  const scope = typescript.isBlock(declaration.parent.parent.parent)
+    ? declaration.parent.parent.parent
+    : declaration.getSourceFile();
+  const binding = declaration.name;
+  let rendered = true;
+  if (typescript.isObjectBindingPattern(binding)) {
+    if (binding.elements.some((element) => !!element.dotDotDotToken)) {
+      return;
+    }
+    const styles = binding.elements.find(
+      (element) => (element.propertyName || element.name).getText() === "styles"
+    );
+    rendered =
+      !!styles &&
+      typescript.isIdentifier(styles.name) &&
+      isReferenced(typescript, styles.name.text, styles.name, scope);
+  } else if (typescript.isIdentifier(binding)) {
+    rendered = isStylesAccessed(typescript, binding.text, scope);
+  }
+
+  if (!rendered) {
+    report(
+      tagged.tag.getStart(),
+      tagged.tag.getEnd(),
+      "The styles of this css.resolve are never rendered, its className has no effect"
+    );
+  }
+}
+
+function checkEmptyGlobal(
+  text: string,
+  styledJsx: StyledJsx,
+  template: StyledJsxTaggedTemplate,
+  report: Report
+): void {
+  const pattern = /:global\(\s*\)/g;
+  const content = text.slice(template.start, template.end);
+  let match: RegExpExecArray | null;
+  while ((match = pattern.exec(content))) {
+    const start = template.start + match.index;
+    const end = start + match[0].length;
+    if (!isInInterpolation(styledJsx.styledJsxTaggedTemplates, start, end)) {
+      report(start, end, ":global() needs a selector");
+    }
+  }
+}
+
+// Checks what styled-jsx expects from the templates and the JSX around them
+export function doStyledJsxValidation(
+  typescript: typeof ts,
+  document: TextDocument,
+  styledJsx: StyledJsx,
+  lint: LintSettings | undefined
+): Diagnostic[] {
+  const diagnostics: Diagnostic[] = [];
+  const text = document.getText();
+  const reporter = (rule: StyledJsxRule): Report | undefined => {
+    const severity: DiagnosticSeverity | undefined = getSeverity(rule, lint);
+    if (severity === undefined) {
+      return undefined;
+    }
+    return (start, end, message) =>
+      diagnostics.push(createDiagnostic(document, start, end, message, rule, severity));
+  };
+  const reportStyleNotInRoot = reporter(styleNotInRootRule);
+  const reportDuplicateGlobal = reporter(duplicateGlobalRule);
+  const reportDynamicExternalSelector = reporter(dynamicExternalSelectorRule);
+  const reportUnrenderedResolveStyles = reporter(unrenderedResolveStylesRule);
+  const reportEmptyGlobal = reporter(emptyGlobalRule);
+
+  for (const template of styledJsx.styledJsxTaggedTemplates) {
+    if (template.kind === "style") {
+      if (reportStyleNotInRoot) {
+        checkStyleInRoot(typescript, template, reportStyleNotInRoot);
+      }
+      if (reportDuplicateGlobal) {
+        checkDuplicateGlobal(template, reportDuplicateGlobal);
+      }
+    } else if (reportDynamicExternalSelector) {
+      checkExternalSelectors(template, reportDynamicExternalSelector);
+    }
+    if (template.kind === "resolve" && reportUnrenderedResolveStyles) {
+      checkResolveStyles(typescript, template, reportUnrenderedResolveStyles);
+    }
+    if (reportEmptyGlobal) {
+      checkEmptyGlobal(text, styledJsx, template, reportEmptyGlobal);
+    }
+  }
+
+  return diagnostics;
+}
@@ -0,0 +1,199 @@
+/* eslint-disable no-unused-vars */
+import * as ts from "typescript";
+import { TextDocument } from "vscode-languageserver-textdocument";
+import { StyledJsxTaggedTemplate, getComponentNode } from "./styled-jsx-utils";
+import { StyledJsxDocument, StyledJsxTemplateDocument, getHostOffset } from "./styled-jsx-document";
+import { NodeType, asCssNode, walkCssNodes } from "./css-nodes";
+
+interface TextChange {
+  // offsets in the host document
+  start: number;
+  end: number;
+  newText: string;
+}
+
+// The string-hash styled-jsx names its classes with
+function hashString(text: string): string {
+  let hash = 5381;
+  for (let i = text.length; i > 0; ) {
+    hash = (hash * 33) ^ text.charCodeAt(--i);
+  }
+  return String(hash >>> 0);
+}
+
+function getTemplateLabel(template: StyledJsxTaggedTemplate): string {
+  switch (template.kind) {
+    case "style":
+      return template.global ? "<style jsx global>" : "<style jsx>";
+    case "resolve":
+      return "css.resolve";
+    default:
+      return template.global ? "css.global" : "css";
+  }
+}
+
+// The <style jsx> of a component share one class, css`` and css.resolve`` have their own
+function getScopeClasses(
+  typescript: typeof ts,
+  document: TextDocument,
+  templates: StyledJsxTaggedTemplate[]
+): string[] {
+  const text = document.getText();
+  const components: ts.Node[] = [];
+  const componentTexts: string[] = [];
+  const keys = templates.map((template, index) => {
+    const component =
+      template.kind === "style" ? getComponentNode(typescript, template.node) : undefined;
+    if (!component) {
+      return index;
+    }
+    let componentIndex = components.indexOf(component);
+    if (componentIndex === -1) {
+      componentIndex = components.push(component) - 1;
+      componentTexts.push("");
+    }
+    componentTexts[componentIndex] += text.slice(template.start, template.end);
+    return -1 - componentIndex;
+  });
+  return keys.map((key, index) =>
+    key >= 0
+      ? "jsx-" + hashString(text.slice(templates[index].start, templates[index].end))
+      : "jsx-" + hashString(componentTexts[-1 - key])
+  );
+}
+
+// The changes that scope a selector: the class goes after every compound selector, in front
+// of its pseudo-classes, and :global() is unwrapped instead
+function getSelectorChanges(selector: string, offset: number, scopeClass: string): TextChange[] {
+  const changes: TextChange[] = [];
+  let compoundStart = 0;
+  let insertAt = -1;
+  let depth = 0;
+
+  const endCompound = (end: number) => {
+    const compound = selector.slice(compoundStart, end);
+    if (compound.trim() && compound.indexOf(":global(") === -1 && compound.charAt(0) !== "&") {
+      const at = offset + (insertAt !== -1 ? insertAt : end);
+      changes.push({ start: at, end: at, newText: "." + scopeClass });
+    }
+    insertAt = -1;
+  };
+
+  for (let i = 0; i < selector.length; i++) {
+    const char = selector.charAt(i);
+    if (depth === 0 && selector.indexOf(":global(", i) === i) {
+      // the selector inside is left as it is
+      let end = i + ":global(".length;
+      for (let nested = 1; end < selector.length; end++) {
+        nested += selector.charAt(end) === "(" ? 1 : selector.charAt(end) === ")" ? -1 : 0;
+        if (nested === 0) {
+          break;
+        }
+      }
+      changes.push({ start: offset + i, end: offset + i + ":global(".length, newText: "" });
+      changes.push({ start: offset + end, end: offset + end + 1, newText: "" });
+      i = end;
+    } else if (char === "(" || char === "[") {
+      depth++;
+    } else if (char === ")" || char === "]") {
+      depth--;
+    } else if (depth === 0 && /[\s>+~]/.test(char)) {
+      endCompound(i);
+      compoundStart = i + 1;
+    } else if (depth === 0 && char === ":" && insertAt === -1) {
+      insertAt = i;
+    }
+  }
+  endCompound(selector.length);
+  return changes;
+}
+
+function applyChanges(text: string, start: number, end: number, changes: TextChange[]): string {
+  let result = "";
+  let offset = start;
+  for (const change of changes.sort((a, b) => a.start - b.start || a.end - b.end)) {
+    result += text.slice(offset, change.start) + change.newText;
+    offset = Math.max(offset, change.end);
+  }
+  return result + text.slice(offset, end);
+}
+
+// Strips the indentation the template has in the code
+function dedent(text: string): string {
+  const lines = text
+    .replace(/^\s*\n/, "")
+    .replace(/\s+$/, "")
+    .split("\n");
+  const indent = Math.min(...lines.filter((line) => line.trim()).map((line) => line.search(/\S/)));
+  return lines.map((line) => line.slice(indent)).join("\n");
+}
+
+function compileTemplate(
+  document: TextDocument,
+  templateDocument: StyledJsxTemplateDocument,
+  scopeClass: string | undefined
+): string {
+  const { template, stylesheet } = templateDocument;
+  const text = document.getText();
+  // expressions are left to the runtime, styled-jsx marks where they go
+  const changes: TextChange[] = template.interpolations.map((interpolation, index) => ({
+    start: interpolation.start,
+    end: interpolation.end,
+    newText: `%%styled-jsx-placeholder-${index}%%`,
+  }));
+
+  if (scopeClass) {
+    walkCssNodes(asCssNode(stylesheet), (node) => {
+      if (node.type !== NodeType.Selector) {
+        return true;
+      }
+      const offset = getHostOffset(templateDocument, node.offset);
+      for (const change of getSelectorChanges(node.getText(), offset, scopeClass)) {
+        // nothing is inserted into an expression
+        const inInterpolation = template.interpolations.some(
+          (interpolation) => change.start < interpolation.end && change.end > interpolation.start
+        );
+        if (!inInterpolation) {
+          changes.push(change);
+        }
+      }
+      // selectors inside pseudo-classes like :not() aren't scoped separately
+      return false;
+    });
+  }
+
+  return dedent(applyChanges(text, template.start, template.end, changes));
+}
+
+// The CSS document the server analyzes: all code but the templates blanked out
+export function getExtractedCss(styledJsxDocument: StyledJsxDocument): string | null {
+  const styledJsx = styledJsxDocument.getStyledJsx();
+  return styledJsx ? styledJsx.cssDocument.getText() : null;
+}
+
+// The CSS of each template roughly as styled-jsx emits it
+export function getCompiledOutput(
+  typescript: typeof ts,
+  document: TextDocument,
+  styledJsxDocument: StyledJsxDocument
+): string | null {
+  const templates = styledJsxDocument.styledJsxTaggedTemplates;
+  if (templates.length === 0) {
+    return null;
+  }
+  const scopeClasses = getScopeClasses(typescript, document, templates);
+  return (
+    styledJsxDocument
+      .getTemplates()
+      .map((templateDocument, index) => {
+        const { template } = templateDocument;
+        const scopeClass = template.global ? undefined : scopeClasses[index];
+        const line = document.positionAt(template.start).line + 1;
+        const header = `/* ${getTemplateLabel(template)}, line ${line}${
+          scopeClass ? `, .${scopeClass}` : ""
+        } */`;
+        return header + "\n" + compileTemplate(document, templateDocument, scopeClass);
+      })
+      .join("\n\n") + "\n"
+  );
+}
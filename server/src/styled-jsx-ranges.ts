@@ -0,0 +1,76 @@
+/* eslint-disable no-unused-vars */
+import { FoldingRange, SelectionRange, Position, Range } from "vscode-languageserver";
+import { TextDocument } from "vscode-languageserver-textdocument";
+import { LanguageService } from "vscode-css-languageservice";
+import { StyledJsxDocument, getCssOffset } from "./styled-jsx-document";
+
+// Folds rule blocks, at-rules, comments and #region markers of each template on its own,
+// so that no range spans from one template into another
+export function getStyledJsxFoldingRanges(
+  styledJsxDocument: StyledJsxDocument,
+  cssLanguageService: LanguageService,
+  rangeLimit?: number
+): FoldingRange[] {
+  const ranges: FoldingRange[] = [];
+
+  for (const { cssDocument } of styledJsxDocument.getTemplates()) {
+    ranges.push(...cssLanguageService.getFoldingRanges(cssDocument));
+  }
+
+  if (typeof rangeLimit === "number" && ranges.length > rangeLimit) {
+    return ranges.slice(0, rangeLimit);
+  }
+  return ranges;
+}
+
+// Expands from the CSS node under the cursor up to the whole template content
+export function getStyledJsxSelectionRanges(
+  document: TextDocument,
+  styledJsxDocument: StyledJsxDocument,
+  cssLanguageService: LanguageService,
+  positions: Position[]
+): SelectionRange[] {
+  return positions.map((position) => {
+    const templateDocument = styledJsxDocument.getTemplateAt(document.offsetAt(position));
+    if (!templateDocument) {
+      return SelectionRange.create(Range.create(position, position));
+    }
+
+    const { template, cssDocument, stylesheet } = templateDocument;
+    const start = getCssOffset(templateDocument, template.start);
+    const end = getCssOffset(templateDocument, template.end);
+    const templateRange = Range.create(
+      document.positionAt(template.start),
+      document.positionAt(template.end)
+    );
+    const [selectionRange] = cssLanguageService.getSelectionRanges(
+      cssDocument,
+      [position],
+      stylesheet
+    );
+
+    // keep the ranges inside the template and end the chain with the template itself
+    const ranges: Range[] = [];
+    for (
+      let current: SelectionRange | undefined = selectionRange;
+      current;
+      current = current.parent
+    ) {
+      const rangeStart = cssDocument.offsetAt(current.range.start);
+      const rangeEnd = cssDocument.offsetAt(current.range.end);
+      if (rangeStart < start || rangeEnd > end) {
+        break;
+      }
+      if (rangeStart !== start || rangeEnd !== end) {
+        ranges.push(current.range);
+      }
+    }
+    ranges.push(templateRange);
+
+    let result: SelectionRange | undefined;
+    for (let i = ranges.length - 1; i >= 0; i--) {
+      result = SelectionRange.create(ranges[i], result);
+    }
+    return result!;
+  });
+}
@@ -0,0 +1,754 @@
+/* eslint-disable no-unused-vars */
+import * as fs from "fs";
+import * as path from "path";
+import * as ts from "typescript";
+import { fileURLToPath, pathToFileURL } from "url";
+import {
+  CodeAction,
+  CodeActionKind,
+  CreateFile,
+  Range,
+  TextDocumentEdit,
+  TextEdit,
+  WorkspaceEdit,
+} from "vscode-languageserver";
+import { TextDocument } from "vscode-languageserver-textdocument";
+import { StyledJsxTaggedTemplate, getComponentNode } from "./styled-jsx-utils";
+
+const styledJsxModule = "styled-jsx/css";
+
+// What the client can apply, and the modules that re-export styled-jsx/css
+export interface StyledJsxRefactorOptions {
+  modules: string[];
+  createFiles: boolean;
+}
+
+interface StyleUsage {
+  // <style jsx>{name}</style>
+  element: ts.JsxElement;
+  expression: ts.JsxExpression;
+}
+
+function forEachNode(
+  typescript: typeof ts,
+  node: ts.Node,
+  callback: (node: ts.Node) => void
+): void {
+  callback(node);
+  typescript.forEachChild(node, (child) => forEachNode(typescript, child, callback));
+}
+
+// An identifier that refers to a variable, not a property or attribute name
+function isReference(typescript: typeof ts, node: ts.Identifier): boolean {
+  const parent = node.parent;
+  if (
+    (typescript.isPropertyAccessExpression(parent) ||
+      typescript.isPropertyAssignment(parent) ||
+      typescript.isMethodDeclaration(parent) ||
+      typescript.isPropertyDeclaration(parent)) &&
+    parent.name === node
+  ) {
+    return false;
+  }
+  if (typescript.isBindingElement(parent) && parent.propertyName === node) {
+    return false;
+  }
+  return !typescript.isJsxAttribute(parent) && !typescript.isJsxOpeningLikeElement(parent);
+}
+
+function getReferencedNames(typescript: typeof ts, template: StyledJsxTaggedTemplate): string[] {
+  const names: string[] = [];
+  if (typescript.isTemplateExpression(template.node)) {
+    for (const span of template.node.templateSpans) {
+      forEachNode(typescript, span.expression, (node) => {
+        if (
+          typescript.isIdentifier(node) &&
+          isReference(typescript, node) &&
+          names.indexOf(node.text) === -1
+        ) {
+          names.push(node.text);
+        }
+      });
+    }
+  }
+  return names;
+}
+
+function addBindingNames(typescript: typeof ts, name: ts.BindingName, names: string[]): void {
+  forEachNode(typescript, name, (node) => {
+    if (
+      typescript.isIdentifier(node) &&
+      !(typescript.isBindingElement(node.parent) && node.parent.propertyName === node)
+    ) {
+      names.push(node.text);
+    }
+  });
+}
+
+// The names declared anywhere inside a function, its parameters included
+function getDeclaredNames(typescript: typeof ts, scope: ts.Node): string[] {
+  const names: string[] = [];
+  forEachNode(typescript, scope, (node) => {
+    if (typescript.isVariableDeclaration(node) || typescript.isParameter(node)) {
+      addBindingNames(typescript, node.name, names);
+    } else if (
+      (typescript.isFunctionDeclaration(node) || typescript.isClassDeclaration(node)) &&
+      node.name &&
+      node !== scope
+    ) {
+      names.push(node.name.text);
+    }
+  });
+  return names;
+}
+
+// The names the statements of the file declare and import
+function getStatementNames(typescript: typeof ts, statement: ts.Statement): string[] {
+  const names: string[] = [];
+  if (typescript.isVariableStatement(statement)) {
+    statement.declarationList.declarations.forEach((declaration) =>
+      addBindingNames(typescript, declaration.name, names)
+    );
+  } else if (
+    (typescript.isFunctionDeclaration(statement) ||
+      typescript.isClassDeclaration(statement) ||
+      typescript.isEnumDeclaration(statement)) &&
+    statement.name
+  ) {
+    names.push(statement.name.text);
+  } else if (typescript.isImportDeclaration(statement) && statement.importClause) {
+    const { name, namedBindings } = statement.importClause;
+    if (name) {
+      names.push(name.text);
+    }
+    if (namedBindings && typescript.isNamespaceImport(namedBindings)) {
+      names.push(namedBindings.name.text);
+    } else if (namedBindings) {
+      namedBindings.elements.forEach((element) => names.push(element.name.text));
+    }
+  }
+  return names;
+}
+
+function getTopLevelNames(typescript: typeof ts, sourceFile: ts.SourceFile): string[] {
+  return sourceFile.statements.reduce(
+    (names: string[], statement) => names.concat(getStatementNames(typescript, statement)),
+    []
+  );
+}
+
+// The last top-level statement that gives a value to a name the template uses when the module
+// loads. Imports and function declarations have their values from the start.
+function findLastValueDeclaration(
+  typescript: typeof ts,
+  sourceFile: ts.SourceFile,
+  template: StyledJsxTaggedTemplate
+): ts.Statement | undefined {
+  const referencedNames = getReferencedNames(typescript, template);
+  let last: ts.Statement | undefined;
+  for (const statement of sourceFile.statements) {
+    if (typescript.isImportDeclaration(statement) || typescript.isFunctionDeclaration(statement)) {
+      continue;
+    }
+    if (
+      getStatementNames(typescript, statement).some((name) => referencedNames.indexOf(name) !== -1)
+    ) {
+      last = statement;
+    }
+  }
+  return last;
+}
+
+// Interpolations of the template that use variables of the functions around it
+function findLocalReferences(typescript: typeof ts, template: StyledJsxTaggedTemplate): string[] {
+  let scope: ts.Node | undefined;
+  for (let node = template.node.parent; node; node = node.parent) {
+    if (typescript.isFunctionLike(node) || typescript.isClassLike(node)) {
+      scope = node;
+    }
+  }
+  if (!scope) {
+    return [];
+  }
+  const declared = getDeclaredNames(typescript, scope);
+  return getReferencedNames(typescript, template).filter((name) => declared.indexOf(name) !== -1);
+}
+
+function getUniqueName(typescript: typeof ts, sourceFile: ts.SourceFile, base: string): string {
+  const used: { [name: string]: boolean } = {};
+  forEachNode(typescript, sourceFile, (node) => {
+    if (typescript.isIdentifier(node)) {
+      used[node.text] = true;
+    }
+  });
+  let name = base;
+  for (let i = 2; used[name]; i++) {
+    name = base + i;
+  }
+  return name;
+}
+
+function getComponentName(
+  typescript: typeof ts,
+  template: StyledJsxTaggedTemplate
+): string | undefined {
+  const component = getComponentNode(typescript, template.node);
+  if (!component) {
+    return undefined;
+  }
+  if (
+    (typescript.isFunctionDeclaration(component) || typescript.isClassLike(component)) &&
+    component.name
+  ) {
+    return component.name.text;
+  }
+  const parent = component.parent;
+  return parent && typescript.isVariableDeclaration(parent) && typescript.isIdentifier(parent.name)
+    ? parent.name.text
+    : undefined;
+}
+
+// buttonStyles for the styles of Button
+function getStylesName(
+  typescript: typeof ts,
+  sourceFile: ts.SourceFile,
+  template: StyledJsxTaggedTemplate
+): string {
+  const componentName = getComponentName(typescript, template);
+  return getUniqueName(
+    typescript,
+    sourceFile,
+    componentName
+      ? componentName.charAt(0).toLowerCase() + componentName.slice(1) + "Styles"
+      : "styles"
+  );
+}
+
+function getIndentation(text: string, offset: number): string {
+  const lineStart = text.lastIndexOf("\n", offset - 1) + 1;
+  return /^[ \t]*/.exec(text.slice(lineStart))![0];
+}
+
+// The content of a template, indented one level deeper than the given indentation
+// with the closing backtick on a line of its own at it
+function reindent(content: string, indent: string): string {
+  const lines = content.split("\n");
+  if (lines.length < 2) {
+    return content;
+  }
+  const body = lines.slice(1);
+  if (body[body.length - 1].trim() === "") {
+    body.pop();
+  }
+  const minIndent = Math.min(
+    ...body.filter((line) => line.trim()).map((line) => line.search(/\S/))
+  );
+  return [lines[0]]
+    .concat(body.map((line) => (line.trim() ? indent + "  " + line.slice(minIndent) : "")))
+    .concat(indent)
+    .join("\n");
+}
+
+function getTemplateText(sourceFile: ts.SourceFile, template: StyledJsxTaggedTemplate): string {
+  return sourceFile.text.slice(template.start, template.end);
+}
+
+// Quotes and semicolons the way the statements of the file write them
+function getCodeStyle(
+  typescript: typeof ts,
+  sourceFile: ts.SourceFile
+): { quote: string; semicolon: string } {
+  const imports = sourceFile.statements.filter(typescript.isImportDeclaration);
+  const statements = sourceFile.statements.filter(
+    (statement) =>
+      typescript.isImportDeclaration(statement) ||
+      typescript.isVariableStatement(statement) ||
+      typescript.isExpressionStatement(statement)
+  );
+  return {
+    quote: imports.some((statement) => statement.moduleSpecifier.getText().charAt(0) === "'")
+      ? "'"
+      : '"',
+    semicolon:
+      statements.length === 0 || statements.some((statement) => /;$/.test(statement.getText()))
+        ? ";"
+        : "",
+  };
+}
+
+function formatImport(
+  typescript: typeof ts,
+  sourceFile: ts.SourceFile,
+  clause: string,
+  moduleName: string
+): string {
+  const { quote, semicolon } = getCodeStyle(typescript, sourceFile);
+  return `import ${clause} from ${quote}${moduleName}${quote}${semicolon}`;
+}
+
+function insertImport(
+  typescript: typeof ts,
+  document: TextDocument,
+  sourceFile: ts.SourceFile,
+  importText: string
+): TextEdit {
+  const imports = sourceFile.statements.filter(typescript.isImportDeclaration);
+  if (imports.length > 0) {
+    return TextEdit.insert(
+      document.positionAt(imports[imports.length - 1].getEnd()),
+      "\n" + importText
+    );
+  }
+  const first = sourceFile.statements[0];
+  return TextEdit.insert(document.positionAt(first ? first.getStart() : 0), importText + "\n\n");
+}
+
+// The tag of css`` or css.global`` in this file, with the import it needs if there is none
+function getCssTag(
+  typescript: typeof ts,
+  document: TextDocument,
+  sourceFile: ts.SourceFile,
+  global: boolean,
+  options: StyledJsxRefactorOptions
+): { tag: string; edits: TextEdit[] } {
+  const modules = [styledJsxModule].concat(options.modules);
+  for (const statement of sourceFile.statements) {
+    if (
+      !typescript.isImportDeclaration(statement) ||
+      !typescript.isStringLiteral(statement.moduleSpecifier) ||
+      modules.indexOf(statement.moduleSpecifier.text) === -1 ||
+      !statement.importClause
+    ) {
+      continue;
+    }
+    const { name, namedBindings } = statement.importClause;
+    if (name) {
+      return { tag: global ? `${name.text}.global` : name.text, edits: [] };
+    }
+    if (namedBindings && typescript.isNamespaceImport(namedBindings)) {
+      return { tag: `${namedBindings.name.text}.${global ? "global" : "default"}`, edits: [] };
+    }
+    const globalImport =
+      global &&
+      namedBindings &&
+      namedBindings.elements.find(
+        (element) => (element.propertyName || element.name).text === "global"
+      );
+    if (globalImport) {
+      return { tag: globalImport.name.text, edits: [] };
+    }
+  }
+  const css = getUniqueName(typescript, sourceFile, "css");
+  return {
+    tag: global ? `${css}.global` : css,
+    edits: [
+      insertImport(
+        typescript,
+        document,
+        sourceFile,
+        formatImport(typescript, sourceFile, css, styledJsxModule)
+      ),
+    ],
+  };
+}
+
+function getTopLevelStatement(typescript: typeof ts, node: ts.Node): ts.Statement | undefined {
+  for (let current: ts.Node | undefined = node; current; current = current.parent) {
+    if (current.parent && typescript.isSourceFile(current.parent)) {
+      return current as ts.Statement;
+    }
+  }
+  return undefined;
+}
+
+function replaceNode(document: TextDocument, node: ts.Node, text: string): TextEdit {
+  return TextEdit.replace(
+    Range.create(document.positionAt(node.getStart()), document.positionAt(node.getEnd())),
+    text
+  );
+}
+
+// `const name = css`...`` at the top level of the file, not exported
+function getCssDeclaration(
+  typescript: typeof ts,
+  template: StyledJsxTaggedTemplate
+): ts.VariableStatement | undefined {
+  const tagged = template.node.parent;
+  const declaration = tagged.parent;
+  if (
+    !typescript.isTaggedTemplateExpression(tagged) ||
+    !typescript.isVariableDeclaration(declaration) ||
+    !typescript.isIdentifier(declaration.name) ||
+    !typescript.isVariableDeclarationList(declaration.parent) ||
+    declaration.parent.declarations.length !== 1
+  ) {
+    return undefined;
+  }
+  const statement = declaration.parent.parent;
+  const exported =
+    !!statement.modifiers &&
+    statement.modifiers.some((modifier) => modifier.kind === typescript.SyntaxKind.ExportKeyword);
+  return typescript.isVariableStatement(statement) &&
+    typescript.isSourceFile(statement.parent) &&
+    !exported
+    ? statement
+    : undefined;
+}
+
+// Every use of the constant, as long as all of them are <style jsx>{name}</style>
+function findStyleUsages(
+  typescript: typeof ts,
+  sourceFile: ts.SourceFile,
+  declaration: ts.VariableDeclaration
+): StyleUsage[] | undefined {
+  const name = (declaration.name as ts.Identifier).text;
+  const usages: StyleUsage[] = [];
+  let otherUses = false;
+  forEachNode(typescript, sourceFile, (node) => {
+    if (
+      !typescript.isIdentifier(node) ||
+      node.text !== name ||
+      node === declaration.name ||
+      !isReference(typescript, node)
+    ) {
+      return;
+    }
+    const expression = node.parent;
+    const element = expression.parent;
+    if (
+      typescript.isJsxExpression(expression) &&
+      element &&
+      typescript.isJsxElement(element) &&
+      element.openingElement.tagName.getText() === "style" &&
+      element.children.filter(
+        (child) => !typescript.isJsxText(child) || !child.containsOnlyTriviaWhiteSpaces
+      ).length === 1
+    ) {
+      usages.push({ element, expression });
+    } else {
+      otherUses = true;
+    }
+  });
+  return otherUses || usages.length === 0 ? undefined : usages;
+}
+
+// Removes the statement with its line, and the blank line after it
+function removeStatement(document: TextDocument, statement: ts.Statement): TextEdit {
+  const text = document.getText();
+  const start = text.lastIndexOf("\n", statement.getStart() - 1) + 1;
+  let end = statement.getEnd();
+  const rest = /^[ \t]*(\r?\n)?([ \t]*\r?\n)?/.exec(text.slice(end));
+  end += rest ? rest[0].length : 0;
+  return TextEdit.del(Range.create(document.positionAt(start), document.positionAt(end)));
+}
+
+function deleteRange(document: TextDocument, start: number, end: number): TextEdit {
+  return TextEdit.del(Range.create(document.positionAt(start), document.positionAt(end)));
+}
+
+// The import of the tag of a css constant about to be removed, or just its specifier, when
+// nothing else uses the tag
+function removeUnusedTagImport(
+  typescript: typeof ts,
+  document: TextDocument,
+  sourceFile: ts.SourceFile,
+  statement: ts.VariableStatement
+): TextEdit | undefined {
+  const tagged = statement.declarationList.declarations[0].initializer;
+  if (!tagged || !typescript.isTaggedTemplateExpression(tagged)) {
+    return undefined;
+  }
+  // css`` and css.global``, or default.css`` of a namespace import
+  const tag = typescript.isPropertyAccessExpression(tagged.tag)
+    ? tagged.tag.expression
+    : tagged.tag;
+  if (!typescript.isIdentifier(tag)) {
+    return undefined;
+  }
+  const name = tag.text;
+  let used = false;
+  for (const other of sourceFile.statements) {
+    if (other === statement || typescript.isImportDeclaration(other)) {
+      continue;
+    }
+    forEachNode(typescript, other, (node) => {
+      used =
+        used ||
+        (typescript.isIdentifier(node) && node.text === name && isReference(typescript, node));
+    });
+  }
+  if (used) {
+    return undefined;
+  }
+
+  for (const declaration of sourceFile.statements) {
+    if (!typescript.isImportDeclaration(declaration) || !declaration.importClause) {
+      continue;
+    }
+    const { name: defaultName, namedBindings } = declaration.importClause;
+    const namespace =
+      namedBindings && typescript.isNamespaceImport(namedBindings) ? namedBindings : undefined;
+    const specifiers: ReadonlyArray<ts.ImportSpecifier> =
+      namedBindings && typescript.isNamedImports(namedBindings) ? namedBindings.elements : [];
+    const specifier = specifiers.find((element) => element.name.text === name);
+    const isDefault = !!defaultName && defaultName.text === name;
+    if (!isDefault && !specifier && !(namespace && namespace.name.text === name)) {
+      continue;
+    }
+    const bindings = (defaultName ? 1 : 0) + (namespace ? 1 : specifiers.length);
+    if (bindings === 1) {
+      return removeStatement(document, declaration);
+    }
+    // import css, { global } from "styled-jsx/css"
+    if (isDefault) {
+      return deleteRange(document, defaultName!.getStart(), namedBindings!.getStart());
+    }
+    if (namespace || specifiers.length === 1) {
+      return deleteRange(document, defaultName!.getEnd(), namedBindings!.getEnd());
+    }
+    const index = specifiers.indexOf(specifier!);
+    return index < specifiers.length - 1
+      ? deleteRange(document, specifier!.getStart(), specifiers[index + 1].getStart())
+      : deleteRange(document, specifiers[index - 1].getEnd(), specifier!.getEnd());
+  }
+  return undefined;
+}
+
+function getStyleExpression(
+  typescript: typeof ts,
+  template: StyledJsxTaggedTemplate
+): ts.JsxExpression | undefined {
+  const expression = template.node.parent;
+  return template.kind === "style" && typescript.isJsxExpression(expression)
+    ? expression
+    : undefined;
+}
+
+// <style jsx>{`...`}</style> to `const styles = css`...`` above the component
+function getExtractToConstant(
+  typescript: typeof ts,
+  document: TextDocument,
+  sourceFile: ts.SourceFile,
+  template: StyledJsxTaggedTemplate,
+  options: StyledJsxRefactorOptions
+): CodeAction | undefined {
+  const expression = getStyleExpression(typescript, template);
+  const statement = getTopLevelStatement(typescript, template.node);
+  if (!expression || !statement) {
+    return undefined;
+  }
+  const name = getStylesName(typescript, sourceFile, template);
+  const { tag, edits } = getCssTag(typescript, document, sourceFile, template.global, options);
+  const declaration = `const ${name} = ${tag}\`${reindent(
+    getTemplateText(sourceFile, template),
+    ""
+  )}\`${getCodeStyle(typescript, sourceFile).semicolon}`;
+  // css runs when the module loads, after the values it uses are declared
+  const valueDeclaration = findLastValueDeclaration(typescript, sourceFile, template);
+  edits.push(
+    valueDeclaration && valueDeclaration.getStart() >= statement.getStart()
+      ? TextEdit.insert(document.positionAt(valueDeclaration.getEnd()), "\n\n" + declaration)
+      : TextEdit.insert(document.positionAt(statement.getStart()), declaration + "\n\n"),
+    replaceNode(document, expression, `{${name}}`)
+  );
+  return {
+    title: "Extract styles to a css constant",
+    kind: CodeActionKind.RefactorExtract,
+    edit: { changes: { [document.uri]: edits } },
+  };
+}
+
+// <style jsx>{`...`}</style> to `export const styles = css`...`` in Component.styles.js
+function getExtractToModule(
+  typescript: typeof ts,
+  document: TextDocument,
+  sourceFile: ts.SourceFile,
+  template: StyledJsxTaggedTemplate,
+  options: StyledJsxRefactorOptions
+): CodeAction | undefined {
+  const expression = getStyleExpression(typescript, template);
+  if (!expression || !options.createFiles || document.uri.indexOf("file:") !== 0) {
+    return undefined;
+  }
+  // the new module has none of the variables of this one
+  const topLevelNames = getTopLevelNames(typescript, sourceFile);
+  if (getReferencedNames(typescript, template).some((name) => topLevelNames.indexOf(name) !== -1)) {
+    return undefined;
+  }
+
+  const fileName = fileURLToPath(document.uri);
+  const extension = path.extname(fileName);
+  const baseName = path.basename(fileName, extension);
+  const moduleFileName = path.join(
+    path.dirname(fileName),
+    `${baseName}.styles${/^\.tsx?$/.test(extension) ? ".ts" : ".js"}`
+  );
+  if (fs.existsSync(moduleFileName)) {
+    return undefined;
+  }
+  const moduleUri = pathToFileURL(moduleFileName).href;
+
+  const name = getStylesName(typescript, sourceFile, template);
+  const tag = template.global ? "css.global" : "css";
+  const moduleText =
+    formatImport(typescript, sourceFile, "css", styledJsxModule) +
+    `\n\nexport const ${name} = ${tag}\`${reindent(getTemplateText(sourceFile, template), "")}\`${
+      getCodeStyle(typescript, sourceFile).semicolon
+    }\n`;
+  const edit: WorkspaceEdit = {
+    documentChanges: [
+      CreateFile.create(moduleUri),
+      TextDocumentEdit.create({ uri: moduleUri, version: null }, [
+        TextEdit.insert({ line: 0, character: 0 }, moduleText),
+      ]),
+      TextDocumentEdit.create({ uri: document.uri, version: document.version }, [
+        insertImport(
+          typescript,
+          document,
+          sourceFile,
+          formatImport(typescript, sourceFile, `{ ${name} }`, `./${baseName}.styles`)
+        ),
+        replaceNode(document, expression, `{${name}}`),
+      ]),
+    ],
+  };
+  return {
+    title: `Extract styles to ${path.basename(moduleFileName)}`,
+    kind: CodeActionKind.RefactorExtract,
+    edit,
+  };
+}
+
+// `const styles = css`...`` back into the <style jsx> elements that render it
+function getInlineConstant(
+  typescript: typeof ts,
+  document: TextDocument,
+  sourceFile: ts.SourceFile,
+  template: StyledJsxTaggedTemplate
+): CodeAction | undefined {
+  const statement = template.kind === "css" ? getCssDeclaration(typescript, template) : undefined;
+  const usages =
+    statement && findStyleUsages(typescript, sourceFile, statement.declarationList.declarations[0]);
+  if (!statement || !usages) {
+    return undefined;
+  }
+  const text = document.getText();
+  const content = getTemplateText(sourceFile, template);
+  const edits: TextEdit[] = [removeStatement(document, statement)];
+  const importRemoval = removeUnusedTagImport(typescript, document, sourceFile, statement);
+  if (importRemoval) {
+    edits.push(importRemoval);
+  }
+  for (const { element, expression } of usages) {
+    const indent = getIndentation(text, element.getStart());
+    edits.push(replaceNode(document, expression, `{\`${reindent(content, indent)}\`}`));
+    // css.global is rendered by <style jsx global>
+    const attributes = element.openingElement.attributes;
+    const global = attributes.properties.some(
+      (property) => !!property.name && property.name.getText() === "global"
+    );
+    if (template.global && !global) {
+      edits.push(TextEdit.insert(document.positionAt(attributes.getEnd()), " global"));
+    }
+  }
+  return {
+    title: "Inline styles into <style jsx>",
+    kind: CodeActionKind.RefactorInline,
+    edit: { changes: { [document.uri]: edits } },
+  };
+}
+
+// Adds the class of css.resolve to an element, next to the classes it already has
+function addClassName(
+  typescript: typeof ts,
+  document: TextDocument,
+  element: ts.JsxOpeningLikeElement,
+  className: string
+): TextEdit {
+  const attribute = element.attributes.properties.find(
+    (property): property is ts.JsxAttribute =>
+      typescript.isJsxAttribute(property) && property.name.getText() === "className"
+  );
+  if (!attribute || !attribute.initializer) {
+    return TextEdit.insert(
+      document.positionAt(element.tagName.getEnd()),
+      ` className={${className}}`
+    );
+  }
+  const initializer = attribute.initializer;
+  const value = typescript.isStringLiteral(initializer)
+    ? initializer.text.replace(/[`\\]|\$\{/g, (match) => "\\" + match)
+    : initializer.expression
+    ? "${" + initializer.expression.getText() + "}"
+    : "";
+  return replaceNode(document, initializer, `{\`${value} \${${className}}\`}`);
+}
+
+// `const styles = css`...`` to css.resolve, with its className on the elements
+// of the components that render it and <style jsx>{styles}</style> replaced by its styles
+function getConvertToResolve(
+  typescript: typeof ts,
+  document: TextDocument,
+  sourceFile: ts.SourceFile,
+  template: StyledJsxTaggedTemplate
+): CodeAction | undefined {
+  const statement =
+    template.kind === "css" && !template.global
+      ? getCssDeclaration(typescript, template)
+      : undefined;
+  const declaration = statement && statement.declarationList.declarations[0];
+  const usages = declaration && findStyleUsages(typescript, sourceFile, declaration);
+  if (!declaration || !usages) {
+    return undefined;
+  }
+  const name = (declaration.name as ts.Identifier).text;
+  const tag = (template.node.parent as ts.TaggedTemplateExpression).tag;
+  const edits: TextEdit[] = [replaceNode(document, tag, `${tag.getText()}.resolve`)];
+  const components: ts.Node[] = [];
+  for (const { element } of usages) {
+    edits.push(replaceNode(document, element, `{${name}.styles}`));
+    const component = getComponentNode(typescript, element);
+    if (component && components.indexOf(component) === -1) {
+      components.push(component);
+    }
+  }
+  for (const component of components) {
+    forEachNode(typescript, component, (node) => {
+      if (
+        (typescript.isJsxOpeningElement(node) || typescript.isJsxSelfClosingElement(node)) &&
+        /^[a-z]/.test(node.tagName.getText()) &&
+        node.tagName.getText() !== "style"
+      ) {
+        edits.push(addClassName(typescript, document, node, `${name}.className`));
+      }
+    });
+  }
+  return {
+    title: "Convert to css.resolve",
+    kind: CodeActionKind.RefactorRewrite,
+    edit: { changes: { [document.uri]: edits } },
+  };
+}
+
+// The refactorings of the template. Styles that use variables of the component can't
+// leave it, css`` only takes values known when the module loads.
+export function getStyledJsxRefactors(
+  typescript: typeof ts,
+  document: TextDocument,
+  sourceFile: ts.SourceFile,
+  template: StyledJsxTaggedTemplate,
+  options: StyledJsxRefactorOptions
+): CodeAction[] {
+  const actions: (CodeAction | undefined)[] = [];
+  if (findLocalReferences(typescript, template).length === 0) {
+    actions.push(
+      getExtractToConstant(typescript, document, sourceFile, template, options),
+      getExtractToModule(typescript, document, sourceFile, template, options)
+    );
+  }
+  actions.push(
+    getInlineConstant(typescript, document, sourceFile, template),
+    getConvertToResolve(typescript, document, sourceFile, template)
+  );
+  return actions.filter((action): action is CodeAction => !!action);
+}
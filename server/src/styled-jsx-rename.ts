@@ -0,0 +1,210 @@
+/* eslint-disable no-unused-vars */
+import * as ts from "typescript";
+import {
+  Position,
+  Range,
+  TextEdit,
+  WorkspaceEdit,
+  ResponseError,
+  ErrorCodes,
+} from "vscode-languageserver";
+import { TextDocument } from "vscode-languageserver-textdocument";
+import { StyledJsx, getComponentNode, isInInterpolation } from "./styled-jsx-utils";
+import {
+  findClassNameAttributes,
+  findClassSelectors,
+  getClassNameUsageAt,
+  getClassSelectorAt,
+  ClassNameAttribute,
+} from "./styled-jsx-class-names";
+
+export const classNamePattern = /^-?[_a-zA-Z][_a-zA-Z0-9-]*$/;
+const identifierPattern = /^[_$a-zA-Z][_$a-zA-Z0-9]*$/;
+
+interface RenameTarget {
+  name: string;
+  start: number;
+  end: number;
+  // the component the class is scoped to, or the whole file
+  scope: ts.Node;
+}
+
+function isInScope(scope: ts.Node, start: number, end: number): boolean {
+  return scope.pos <= start && end <= scope.end;
+}
+
+function getRenameTarget(
+  typescript: typeof ts,
+  styledJsx: StyledJsx,
+  attributes: ClassNameAttribute[],
+  offset: number
+): RenameTarget | undefined {
+  const selector = getClassSelectorAt(styledJsx, offset);
+  if (
+    selector &&
+    !isInInterpolation(styledJsx.styledJsxTaggedTemplates, selector.start, selector.end)
+  ) {
+    const template = styledJsx.styledJsxTaggedTemplates.find(
+      (item) => item.start <= selector.start && selector.end <= item.end
+    );
+    const scope = (template && getComponentNode(typescript, template.node)) || styledJsx.sourceFile;
+    return { ...selector, scope };
+  }
+
+  const usage = getClassNameUsageAt(attributes, offset);
+  if (usage) {
+    const attribute = attributes.find((item) => item.usages.indexOf(usage) !== -1);
+    const scope =
+      (attribute && getComponentNode(typescript, attribute.element)) || styledJsx.sourceFile;
+    return { name: usage.name, start: usage.start, end: usage.end, scope };
+  }
+  return undefined;
+}
+
+// The expressions that hold the className of a css.resolve, which is never a class of the file:
+// className and cn of const { className: cn } = css.resolve``, or result.className
+function findResolveClassNames(typescript: typeof ts, styledJsx: StyledJsx): string[] {
+  const names: string[] = [];
+  for (const template of styledJsx.styledJsxTaggedTemplates) {
+    let declaration: ts.Node = template.node.parent.parent;
+    while (typescript.isParenthesizedExpression(declaration)) {
+      declaration = declaration.parent;
+    }
+    if (template.kind !== "resolve" || !typescript.isVariableDeclaration(declaration)) {
+      continue;
+    }
+    const binding = declaration.name;
+    if (typescript.isIdentifier(binding)) {
+      names.push(`${binding.text}.className`);
+    } else if (typescript.isObjectBindingPattern(binding)) {
+      for (const element of binding.elements) {
+        if ((element.propertyName || element.name).getText() === "className") {
+          names.push(element.name.getText());
+        }
+      }
+    }
+  }
+  return names;
+}
+
+// A class name built at runtime might be the one renamed, so it can't be rewritten
+function findDynamicUsage(
+  typescript: typeof ts,
+  document: TextDocument,
+  styledJsx: StyledJsx,
+  attributes: ClassNameAttribute[],
+  target: RenameTarget
+): ResponseError<void> | undefined {
+  const resolveClassNames = findResolveClassNames(typescript, styledJsx);
+  for (const attribute of attributes) {
+    if (!isInScope(target.scope, attribute.start, attribute.end)) {
+      continue;
+    }
+    for (const partial of attribute.partials) {
+      const matches =
+        partial.openStart && partial.openEnd
+          ? target.name.indexOf(partial.text) !== -1
+          : partial.openEnd
+          ? target.name.indexOf(partial.text) === 0
+          : target.name.slice(-partial.text.length) === partial.text;
+      if (matches) {
+        const line = document.positionAt(partial.start).line + 1;
+        return new ResponseError<void>(
+          ErrorCodes.InvalidRequest,
+          `Can't rename '${target.name}': the className on line ${line} builds class names from '${partial.text}' at runtime.`
+        );
+      }
+    }
+    for (const expression of attribute.expressions) {
+      const text = expression.getText();
+      if (resolveClassNames.indexOf(text) === -1) {
+        const line = document.positionAt(expression.getStart()).line + 1;
+        return new ResponseError<void>(
+          ErrorCodes.InvalidRequest,
+          `Can't rename '${target.name}': the className on line ${line} takes class names from '${text}' at runtime.`
+        );
+      }
+    }
+  }
+  return undefined;
+}
+
+export function prepareClassNameRename(
+  typescript: typeof ts,
+  document: TextDocument,
+  styledJsx: StyledJsx,
+  position: Position
+): Range | ResponseError<void> | null {
+  const attributes = findClassNameAttributes(typescript, styledJsx.sourceFile);
+  const target = getRenameTarget(typescript, styledJsx, attributes, document.offsetAt(position));
+  if (!target) {
+    return null;
+  }
+
+  return (
+    findDynamicUsage(typescript, document, styledJsx, attributes, target) ||
+    Range.create(document.positionAt(target.start), document.positionAt(target.end))
+  );
+}
+
+// Renames a class in the templates and className attributes of its component.
+// Returns null when there's no class at the position.
+export function doClassNameRename(
+  typescript: typeof ts,
+  document: TextDocument,
+  styledJsx: StyledJsx,
+  position: Position,
+  newName: string
+): WorkspaceEdit | ResponseError<void> | null {
+  const attributes = findClassNameAttributes(typescript, styledJsx.sourceFile);
+  const target = getRenameTarget(typescript, styledJsx, attributes, document.offsetAt(position));
+  if (!target) {
+    return null;
+  }
+
+  newName = newName.replace(/^\./, "");
+  if (!classNamePattern.test(newName)) {
+    return new ResponseError<void>(
+      ErrorCodes.InvalidParams,
+      `'${newName}' is not a valid class name.`
+    );
+  }
+  const dynamicUsage = findDynamicUsage(typescript, document, styledJsx, attributes, target);
+  if (dynamicUsage) {
+    return dynamicUsage;
+  }
+
+  const replace = (start: number, end: number, text: string) =>
+    TextEdit.replace(Range.create(document.positionAt(start), document.positionAt(end)), text);
+  const edits: TextEdit[] = [];
+
+  // templates outside of any component are only renamed with the whole file, since other
+  // components may render them too
+  const templates = styledJsx.styledJsxTaggedTemplates.filter((template) =>
+    isInScope(target.scope, template.start, template.end)
+  );
+  for (const selector of findClassSelectors(styledJsx)) {
+    const inScope = templates.some(
+      (template) => template.start <= selector.start && selector.end <= template.end
+    );
+    if (inScope && selector.name === target.name) {
+      edits.push(replace(selector.start, selector.end, newName));
+    }
+  }
+
+  for (const attribute of attributes) {
+    if (!isInScope(target.scope, attribute.start, attribute.end)) {
+      continue;
+    }
+    for (const usage of attribute.usages) {
+      if (usage.name === target.name) {
+        // { active: isActive } needs quotes once the key isn't an identifier
+        const text =
+          usage.identifier && !identifierPattern.test(newName) ? `"${newName}"` : newName;
+        edits.push(replace(usage.start, usage.end, text));
+      }
+    }
+  }
+
+  return { changes: { [document.uri]: edits } };
+}
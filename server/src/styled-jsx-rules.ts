@@ -0,0 +1,118 @@
+/* eslint-disable no-unused-vars */
+import { Diagnostic, DiagnosticSeverity, Range } from "vscode-languageserver";
+import { TextDocument } from "vscode-languageserver-textdocument";
+import { LintSettings } from "vscode-css-languageservice";
+
+// A check of its own on top of the CSS validation. Its severity is set with
+// the lint setting of the same ID.
+export interface StyledJsxRule {
+  id: string;
+  description: string;
+  defaultSeverity: DiagnosticSeverity;
+}
+
+export const unusedSelectorRule: StyledJsxRule = {
+  id: "unusedSelector",
+  description: "A selector in a <style jsx> that no element of the component can match.",
+  defaultSeverity: DiagnosticSeverity.Warning,
+};
+
+export const undefinedClassNameRule: StyledJsxRule = {
+  id: "undefinedClassName",
+  description: "A className value that no rule in the file defines.",
+  defaultSeverity: DiagnosticSeverity.Information,
+};
+
+export const styleNotInRootRule: StyledJsxRule = {
+  id: "styleNotInRoot",
+  description:
+    "A <style jsx> that isn't a child of the root element the component returns. styled-jsx only scopes styles placed there.",
+  defaultSeverity: DiagnosticSeverity.Warning,
+};
+
+export const dynamicExternalSelectorRule: StyledJsxRule = {
+  id: "dynamicExternalSelector",
+  description:
+    "An interpolation in a selector of css, css.global or css.resolve styles, which styled-jsx can't compile.",
+  defaultSeverity: DiagnosticSeverity.Error,
+};
+
+export const duplicateGlobalRule: StyledJsxRule = {
+  id: "duplicateGlobal",
+  description: "A <style jsx> with more than one global attribute.",
+  defaultSeverity: DiagnosticSeverity.Warning,
+};
+
+export const unrenderedResolveStylesRule: StyledJsxRule = {
+  id: "unrenderedResolveStyles",
+  description:
+    "A css.resolve result whose styles element is never rendered, so its className matches nothing.",
+  defaultSeverity: DiagnosticSeverity.Warning,
+};
+
+export const emptyGlobalRule: StyledJsxRule = {
+  id: "emptyGlobal",
+  description: "A :global() without a selector.",
+  defaultSeverity: DiagnosticSeverity.Warning,
+};
+
+export const missingFileRule: StyledJsxRule = {
+  id: "missingFile",
+  description: "A url() or @import of a file that doesn't exist.",
+  defaultSeverity: DiagnosticSeverity.Warning,
+};
+
+export const redundantVendorPrefixRule: StyledJsxRule = {
+  id: "redundantVendorPrefix",
+  description:
+    "A vendor-prefixed declaration that styled-jsx already generates from the standard one next to it.",
+  defaultSeverity: DiagnosticSeverity.Information,
+};
+
+export const styledJsxRules: StyledJsxRule[] = [
+  unusedSelectorRule,
+  undefinedClassNameRule,
+  styleNotInRootRule,
+  dynamicExternalSelectorRule,
+  duplicateGlobalRule,
+  unrenderedResolveStylesRule,
+  emptyGlobalRule,
+  missingFileRule,
+  redundantVendorPrefixRule,
+];
+
+// Uses the same levels as the css.lint settings
+export function getSeverity(
+  rule: StyledJsxRule,
+  lint: LintSettings | undefined
+): DiagnosticSeverity | undefined {
+  switch (lint && lint[rule.id]) {
+    case "ignore":
+      return undefined;
+    case "info":
+      return DiagnosticSeverity.Information;
+    case "warning":
+      return DiagnosticSeverity.Warning;
+    case "error":
+      return DiagnosticSeverity.Error;
+    default:
+      return rule.defaultSeverity;
+  }
+}
+
+export function createDiagnostic(
+  document: TextDocument,
+  start: number,
+  end: number,
+  message: string,
+  rule: StyledJsxRule,
+  severity: DiagnosticSeverity
+): Diagnostic {
+  return Diagnostic.create(
+    Range.create(document.positionAt(start), document.positionAt(end)),
+    message,
+    severity,
+    rule.id,
+    "styled-jsx"
+  );
+}
@@ -0,0 +1,193 @@
+/* eslint-disable no-unused-vars */
+import {
+  Hover,
+  Position,
+  Range,
+  CompletionList,
+  CompletionItem,
+  CompletionItemKind,
+  InsertTextFormat,
+  TextEdit,
+  SymbolInformation,
+  SymbolKind,
+  MarkupContent,
+} from "vscode-languageserver";
+import { StyledJsxTaggedTemplate } from "./styled-jsx-utils";
+import { StyledJsxTemplateDocument } from "./styled-jsx-document";
+import { CssNode, NodeType, findCssNodeAtOffset } from "./css-nodes";
+
+// Whether the rules end up scoped to a component or emitted globally, and why
+export interface StyledJsxScope {
+  global: boolean;
+  reason: string;
+}
+
+const globalPattern = /:global\((?:[^()]|\([^()]*\))*\)/g;
+
+export function getTemplateScope(template: StyledJsxTaggedTemplate): StyledJsxScope {
+  if (template.global) {
+    return template.kind === "style"
+      ? { global: true, reason: "`<style jsx global>` emits its rules globally." }
+      : { global: true, reason: "`css.global` emits its rules globally." };
+  }
+  switch (template.kind) {
+    case "resolve":
+      return {
+        global: false,
+        reason: "`css.resolve` scopes its rules to the elements given its `className`.",
+      };
+    case "css":
+      return {
+        global: false,
+        reason: "`css` scopes its rules to the components that render it in a `<style jsx>`.",
+      };
+    default:
+      return { global: false, reason: "`<style jsx>` scopes its rules to this component." };
+  }
+}
+
+// Nothing but :global() groups and combinators
+function isGlobalSelector(selector: string): boolean {
+  return (
+    selector.indexOf(":global(") !== -1 && /^[\s>+~&]*$/.test(selector.replace(globalPattern, ""))
+  );
+}
+
+function getPrelude(ruleset: CssNode): string {
+  const text = ruleset.getText();
+  const index = text.indexOf("{");
+  return index !== -1 ? text.slice(0, index) : text;
+}
+
+// The scope of the selector at the offset, which can opt out of scoped styles with :global()
+export function getSelectorScope(
+  templateDocument: StyledJsxTemplateDocument,
+  offset: number
+): { scope: StyledJsxScope; selector: CssNode } | undefined {
+  const selector = findCssNodeAtOffset(templateDocument.stylesheet, offset, NodeType.Selector);
+  if (!selector) {
+    return undefined;
+  }
+
+  const templateScope = getTemplateScope(templateDocument.template);
+  if (templateScope.global) {
+    return { scope: templateScope, selector };
+  }
+
+  const text = selector.getText();
+  // nested rules are only global when the rules around them are
+  let ancestorsGlobal = true;
+  let ownRuleset = true;
+  for (let node = selector.parent; node; node = node.parent) {
+    if (node.type === NodeType.Ruleset) {
+      ancestorsGlobal =
+        ancestorsGlobal &&
+        (ownRuleset ||
+          getPrelude(node)
+            .split(",")
+            .every((item) => isGlobalSelector(item)));
+      ownRuleset = false;
+    }
+  }
+
+  if (isGlobalSelector(text) && ancestorsGlobal) {
+    return {
+      scope: { global: true, reason: "`:global()` emits this selector globally." },
+      selector,
+    };
+  }
+  if (text.indexOf(":global(") !== -1) {
+    return {
+      scope: {
+        global: false,
+        reason: `${templateScope.reason} The parts inside \`:global()\` match elements anywhere.`,
+      },
+      selector,
+    };
+  }
+  return { scope: templateScope, selector };
+}
+
+function formatScope(scope: StyledJsxScope): string {
+  return `${scope.global ? "**Global**" : "**Scoped**"}: ${scope.reason}`;
+}
+
+// Adds the scope of the selector under the cursor to the hover of the CSS service
+export function doScopeHover(
+  templateDocument: StyledJsxTemplateDocument,
+  position: Position,
+  hover: Hover | null
+): Hover | null {
+  const { cssDocument } = templateDocument;
+  const result = getSelectorScope(templateDocument, cssDocument.offsetAt(position));
+  if (!result) {
+    return hover;
+  }
+
+  const text = formatScope(result.scope);
+  if (!hover) {
+    return {
+      contents: { kind: "markdown", value: text },
+      range: Range.create(
+        cssDocument.positionAt(result.selector.offset),
+        cssDocument.positionAt(result.selector.end)
+      ),
+    };
+  }
+  const contents = hover.contents;
+  if (MarkupContent.is(contents)) {
+    return { ...hover, contents: { ...contents, value: `${contents.value}\n\n${text}` } };
+  }
+  return { ...hover, contents: (Array.isArray(contents) ? contents : [contents]).concat(text) };
+}
+
+// Offers :global() wherever the CSS service completes pseudo-classes
+export function doGlobalComplete(list: CompletionList, snippetSupport: boolean): CompletionList {
+  const pseudoClass = list.items.find(
+    (item) => item.label.charAt(0) === ":" && item.label.charAt(1) !== ":"
+  );
+  if (
+    !pseudoClass ||
+    !pseudoClass.textEdit ||
+    list.items.some((item) => item.label === ":global()")
+  ) {
+    return list;
+  }
+
+  const item: CompletionItem = {
+    label: ":global()",
+    kind: CompletionItemKind.Function,
+    documentation: "Opts the selector inside out of the styles scoped to the component.",
+    textEdit: TextEdit.replace(
+      pseudoClass.textEdit.range,
+      snippetSupport ? ":global($1)" : ":global()"
+    ),
+    insertTextFormat: snippetSupport ? InsertTextFormat.Snippet : InsertTextFormat.PlainText,
+    sortText: "a",
+  };
+  return { ...list, items: list.items.concat(item) };
+}
+
+// Labels selectors and keyframes with the scope they end up in
+export function addSymbolScopes(
+  templateDocument: StyledJsxTemplateDocument,
+  symbols: SymbolInformation[]
+): SymbolInformation[] {
+  const { cssDocument, template } = templateDocument;
+  return symbols.map((symbol) => {
+    const isSelector = symbol.kind === SymbolKind.Class && symbol.name.charAt(0) !== "@";
+    // styled-jsx scopes animation names as well
+    const isKeyframes = symbol.name.indexOf("@keyframes") === 0;
+    if (!isSelector && !isKeyframes) {
+      return symbol;
+    }
+    // the location is the whole rule, which may list several selectors
+    const ruleStart = cssDocument.offsetAt(symbol.location.range.start);
+    const selectorStart = cssDocument.getText().indexOf(symbol.name, ruleStart);
+    const result = isSelector
+      ? getSelectorScope(templateDocument, selectorStart !== -1 ? selectorStart : ruleStart)
+      : undefined;
+    const scope = result ? result.scope : getTemplateScope(template);
+    return { ...symbol, containerName: scope.global ? "global" : "scoped" };
+  });
+}
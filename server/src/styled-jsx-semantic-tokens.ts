@@ -0,0 +1,257 @@
+/* eslint-disable no-unused-vars */
+import { Proposed, ProposedFeatures, Range } from "vscode-languageserver";
+import { TextDocument } from "vscode-languageserver-textdocument";
+import { ColorInformation } from "vscode-css-languageservice";
+import { StyledJsxDocument, StyledJsxTemplateDocument, getHostOffset } from "./styled-jsx-document";
+import { isInInterpolation } from "./styled-jsx-utils";
+import { CssNode, NodeType, asCssNode, walkCssNodes } from "./css-nodes";
+
+// The css* types are contributed by the extension with the scopes of the CSS grammar,
+// so themes color them like a .css file. They don't clash with the types of TypeScript
+// for the rest of the document.
+const tokenTypes: string[] = [
+  "comment",
+  "string",
+  "number",
+  "keyword",
+  "function",
+  "variable",
+  "cssTag",
+  "cssClass",
+  "cssId",
+  "cssPseudo",
+  "cssAttribute",
+  "cssProperty",
+  "cssCustomProperty",
+  "cssValue",
+  "cssUnit",
+  "cssColor",
+  "cssAtRule",
+];
+
+const tokenModifiers: string[] = ["declaration"];
+
+export const semanticTokensLegend: Proposed.SemanticTokensLegend = { tokenTypes, tokenModifiers };
+
+interface CssToken {
+  // offsets in the CSS document of the template
+  start: number;
+  end: number;
+  type: string;
+  declaration?: boolean;
+}
+
+interface SemanticToken {
+  line: number;
+  character: number;
+  length: number;
+  type: string;
+  modifiers: number;
+}
+
+function getAncestor(node: CssNode, types: NodeType[]): CssNode | undefined {
+  for (let current = node.parent; current; current = current.parent) {
+    if (types.indexOf(current.type) !== -1) {
+      return current;
+    }
+  }
+  return undefined;
+}
+
+// The first match of the pattern at the start of the node
+function getPrefixToken(node: CssNode, pattern: RegExp, type: string): CssToken[] {
+  const match = pattern.exec(node.getText());
+  return match ? [{ start: node.offset, end: node.offset + match[0].length, type }] : [];
+}
+
+function getIdentifierToken(node: CssNode, colorOffsets: number[]): CssToken[] {
+  const text = node.getText();
+  const token = { start: node.offset, end: node.end };
+  const parent = node.parent;
+  if (!parent || getAncestor(node, [NodeType.Selector])) {
+    return [];
+  }
+  if (parent.type === NodeType.Property) {
+    return text.indexOf("--") === 0
+      ? [{ ...token, type: "cssCustomProperty", declaration: true }]
+      : [{ ...token, type: "cssProperty" }];
+  }
+  if (parent.type === NodeType.MediaQuery) {
+    // (min-width: 10px) has a feature, screen and print are media types
+    const after = parent.getText().slice(node.end - parent.offset);
+    return [{ ...token, type: /^\s*:/.test(after) ? "cssProperty" : "cssValue" }];
+  }
+  if (parent.type === NodeType.Term) {
+    if (text.indexOf("--") === 0) {
+      return [{ ...token, type: "cssCustomProperty" }];
+    }
+    return [{ ...token, type: colorOffsets.indexOf(node.offset) !== -1 ? "cssColor" : "cssValue" }];
+  }
+  return [];
+}
+
+function getNodeTokens(node: CssNode, colorOffsets: number[]): CssToken[] {
+  switch (node.type) {
+    case NodeType.Identifier:
+      return getIdentifierToken(node, colorOffsets);
+    case NodeType.ElementNameSelector:
+      return [{ start: node.offset, end: node.end, type: "cssTag" }];
+    case NodeType.ClassSelector:
+      return [{ start: node.offset, end: node.end, type: "cssClass" }];
+    case NodeType.IdentifierSelector:
+      return [{ start: node.offset, end: node.end, type: "cssId" }];
+    case NodeType.PseudoSelector:
+      // the selectors inside :global() and :not() have tokens of their own
+      return getPrefixToken(node, /^::?[-\w]+/, "cssPseudo");
+    case NodeType.AttributeSelector: {
+      const match = /^\[\s*([-\w]+)/.exec(node.getText());
+      if (!match) {
+        return [];
+      }
+      const start = node.offset + match[0].length - match[1].length;
+      return [{ start, end: start + match[1].length, type: "cssAttribute" }];
+    }
+    case NodeType.NumericValue: {
+      const match = /^[-+]?(?:\d*\.)?\d+(?:e[-+]?\d+)?/i.exec(node.getText());
+      if (!match) {
+        return [];
+      }
+      const unitStart = node.offset + match[0].length;
+      const tokens: CssToken[] = [{ start: node.offset, end: unitStart, type: "number" }];
+      if (unitStart < node.end) {
+        tokens.push({ start: unitStart, end: node.end, type: "cssUnit" });
+      }
+      return tokens;
+    }
+    case NodeType.HexColorValue:
+      return [{ start: node.offset, end: node.end, type: "cssColor" }];
+    case NodeType.StringLiteral:
+    case NodeType.URILiteral:
+      return [{ start: node.offset, end: node.end, type: "string" }];
+    case NodeType.Function:
+      return getPrefixToken(node, /^[-\w]+/, "function");
+    case NodeType.VariableName:
+      return [{ start: node.offset, end: node.end, type: "variable" }];
+    case NodeType.Prio:
+      return [{ start: node.offset, end: node.end, type: "keyword" }];
+    case NodeType.VariableDeclaration:
+      // @name: value in LESS isn't an at-rule
+      return [];
+    default:
+      return getPrefixToken(node, /^@[-\w]+/, "cssAtRule");
+  }
+}
+
+// Comments aren't nodes of the stylesheet. SCSS and LESS have line comments as well.
+function findComments(cssDocument: TextDocument): CssToken[] {
+  const text = cssDocument.getText();
+  const lineComments = cssDocument.languageId !== "css";
+  const tokens: CssToken[] = [];
+  for (let i = 0; i < text.length; i++) {
+    const char = text.charAt(i);
+    if (char === '"' || char === "'") {
+      for (i++; i < text.length && text.charAt(i) !== char && text.charAt(i) !== "\n"; i++) {
+        if (text.charAt(i) === "\\") {
+          i++;
+        }
+      }
+    } else if (/^url\(/i.test(text.slice(i, i + 4))) {
+      // url(http://...) isn't a line comment
+      const end = text.indexOf(")", i);
+      i = end === -1 ? text.length : end;
+    } else if (char === "/" && text.charAt(i + 1) === "*") {
+      const end = text.indexOf("*/", i + 2);
+      const commentEnd = end === -1 ? text.length : end + 2;
+      tokens.push({ start: i, end: commentEnd, type: "comment" });
+      i = commentEnd - 1;
+    } else if (lineComments && char === "/" && text.charAt(i + 1) === "/") {
+      const end = text.indexOf("\n", i);
+      const commentEnd = end === -1 ? text.length : end;
+      tokens.push({ start: i, end: commentEnd, type: "comment" });
+      i = commentEnd;
+    }
+  }
+  return tokens;
+}
+
+function findTemplateTokens(
+  templateDocument: StyledJsxTemplateDocument,
+  colors: ColorInformation[]
+): CssToken[] {
+  const { cssDocument, stylesheet, template } = templateDocument;
+  const colorOffsets = colors.map((color) => cssDocument.offsetAt(color.range.start));
+  const tokens: CssToken[] = findComments(cssDocument);
+  walkCssNodes(asCssNode(stylesheet), (node) => {
+    tokens.push(...getNodeTokens(node, colorOffsets));
+  });
+  // what an interpolation stands for is highlighted as JavaScript
+  return tokens.filter(
+    (token) =>
+      !isInInterpolation(
+        [template],
+        getHostOffset(templateDocument, token.start),
+        getHostOffset(templateDocument, token.end)
+      )
+  );
+}
+
+// The tokens of all templates, or of those in the range. Tokens are split at line breaks.
+export function getStyledJsxSemanticTokens(
+  styledJsxDocument: StyledJsxDocument,
+  findDocumentColors: (templateDocument: StyledJsxTemplateDocument) => ColorInformation[],
+  range?: Range
+): Proposed.SemanticTokens {
+  const lines: SemanticToken[] = [];
+  for (const templateDocument of styledJsxDocument.getTemplates()) {
+    const { cssDocument } = templateDocument;
+    const text = cssDocument.getText();
+    const tokens = findTemplateTokens(templateDocument, findDocumentColors(templateDocument)).sort(
+      (a, b) => a.start - b.start || b.end - a.end
+    );
+    let previousEnd = 0;
+    for (const token of tokens) {
+      // a node and its first child may both start with the same text
+      if (token.start < previousEnd || token.end <= token.start) {
+        continue;
+      }
+      previousEnd = token.end;
+      const start = cssDocument.positionAt(token.start);
+      const end = cssDocument.positionAt(token.end);
+      if (range && (end.line < range.start.line || start.line > range.end.line)) {
+        continue;
+      }
+      for (let line = start.line; line <= end.line; line++) {
+        const character = line === start.line ? start.character : 0;
+        let lineEnd = token.end;
+        if (line !== end.line) {
+          lineEnd = cssDocument.offsetAt({ line: line + 1, character: 0 }) - 1;
+          lineEnd -= text.charAt(lineEnd - 1) === "\r" ? 1 : 0;
+        }
+        const length = lineEnd - cssDocument.offsetAt({ line, character });
+        if (length > 0) {
+          lines.push({
+            line,
+            character,
+            length,
+            type: token.type,
+            modifiers: token.declaration ? 1 : 0,
+          });
+        }
+      }
+    }
+  }
+
+  const builder = new ProposedFeatures.SemanticTokensBuilder();
+  lines
+    .sort((a, b) => a.line - b.line || a.character - b.character)
+    .forEach((token) =>
+      builder.push(
+        token.line,
+        token.character,
+        token.length,
+        tokenTypes.indexOf(token.type),
+        token.modifiers
+      )
+    );
+  return builder.build();
+}
@@ -8,7 +8,6 @@ import {
   createConnection,
   TextDocuments,
   ConfigurationRequest,
-  TextDocument,
   TextDocumentSyncKind,
   CompletionList,
   WorkspaceEdit,
@@ -25,10 +24,12 @@ import {
   DocumentColorParams,
   ConfigurationParams,
   DidChangeConfigurationParams,
+  DidChangeWatchedFilesParams,
   InitializeParams,
   InitializeResult,
   ServerCapabilities,
-  IConnection,
+  ProposedFeatures,
+  Proposed,
   TextDocumentPositionParams,
   TextDocumentChangeEvent,
   Command,
@@ -37,49 +38,72 @@ import {
   DefinitionLink,
   Location,
   DocumentHighlight,
+  DocumentLink,
+  DocumentLinkParams,
+  DocumentFormattingParams,
+  DocumentRangeFormattingParams,
+  TextEdit,
+  Range,
+  ResponseError,
+  FoldingRange,
+  FoldingRangeParams,
+  SelectionRange,
+  SelectionRangeParams,
+  NotificationType,
+  RequestType,
+  TextDocumentIdentifier,
+  Position,
+  CancellationToken,
+  WorkspaceSymbolParams,
+  FileChangeType,
 } from "vscode-languageserver";
+import { TextDocument } from "vscode-languageserver-textdocument";
+import * as path from "path";
+import { ColorInformation } from "vscode-css-languageservice";
 
-import {
-  getSCSSLanguageService,
-  Stylesheet,
-  LanguageSettings,
-  LanguageService,
-  ColorInformation,
-} from "vscode-css-languageservice";
-
-import { getLanguageModelCache, LanguageModelCache } from "./language-model-cache";
+import { runSafe, formatError } from "./runner";
 
-import { getStyledJsx, getStyledJsxUnderCursor, StyledJsx } from "./styled-jsx-utils";
+import { StyledJsxSettings, mergeSettings, isFeatureEnabled } from "./styled-jsx-settings";
+import { babelConfigFiles } from "./styled-jsx-babel-config";
+import { stylelintConfigFiles } from "./styled-jsx-stylelint";
+import { scanWorkspace, isScriptFile } from "./styled-jsx-workspace-index";
+import {
+  getStyledJsxLanguageService,
+  StyledJsxLanguageService,
+  getFileName,
+  semanticTokensLegend,
+} from "./styled-jsx-language-service";
 
-// Create a connection for the server.
-const connection: IConnection = createConnection();
+// Create a connection for the server, with the proposed semantic tokens
+const connection = createConnection(ProposedFeatures.all);
 
 console.log = connection.console.log.bind(connection.console);
 console.error = connection.console.error.bind(connection.console);
 
 // Create a simple text document manager. The text document manager
-// supports full document sync only
-const documents: TextDocuments = new TextDocuments();
+// supports full and incremental document sync
+const documents: TextDocuments<TextDocument> = new TextDocuments(TextDocument);
 
 // Make the text document manager listen on the connection
 // for open, change and close text document events
 documents.listen(connection);
 
-const stylesheets: LanguageModelCache<Stylesheet> = getLanguageModelCache<Stylesheet>(
-  10,
-  60,
-  (document) => cssLanguageService.parseStylesheet(document)
-);
+// the features themselves, this file only connects them to the client
+let styledJsxLanguageService: StyledJsxLanguageService = getStyledJsxLanguageService();
 
 documents.onDidClose((e) => {
-  stylesheets.onDocumentRemoved(e.document);
+  styledJsxLanguageService.onDocumentRemoved(e.document);
 });
 
 connection.onShutdown(() => {
-  stylesheets.dispose();
+  styledJsxLanguageService.dispose();
 });
 
+// the folders of the workspace on disk
+let workspaceFolders: string[] = [];
+
 let scopedSettingsSupport: boolean = false;
+let foldingRangeLimit: number | undefined = void 0;
 
 // After the server has started the client sends an initilize request. The server receives
 // in the passed params the rootPath of the workspace plus the client capabilities.
@@ -88,7 +112,7 @@ connection.onInitialize(
     function hasClientCapability(name: string): boolean {
       let c: any = params.capabilities;
       for (const key of name.split(".")) {
-        c = c[key];
+        c = c && c[key];
       }
 
       return !!c;
@@ -97,76 +121,190 @@ connection.onInitialize(
       "textDocument.completion.completionItem.snippetSupport"
     );
     scopedSettingsSupport = hasClientCapability("workspace.configuration");
-    const capabilities: ServerCapabilities = {
-      // Tell the client that the server works in FULL text document sync mode
-      textDocumentSync: TextDocumentSyncKind.Full,
-      completionProvider: snippetSupport ? { resolveProvider: false } : undefined,
+    const prepareRenameSupport = hasClientCapability("textDocument.rename.prepareSupport");
+    const foldingRange =
+      params.capabilities.textDocument && params.capabilities.textDocument.foldingRange;
+    foldingRangeLimit = foldingRange && foldingRange.rangeLimit;
+    const folderUris = params.workspaceFolders
+      ? params.workspaceFolders.map((folder) => folder.uri)
+      : params.rootUri
+      ? [params.rootUri]
+      : [];
+    workspaceFolders = folderUris
+      .map((uri) => getFileName(uri))
+      .filter((fileName): fileName is string => !!fileName);
+    styledJsxLanguageService.dispose();
+    styledJsxLanguageService = getStyledJsxLanguageService({
+      clientCapabilities: params.capabilities,
+    });
+    const capabilities: ServerCapabilities & Proposed.SemanticTokensServerCapabilities = {
+      // Tell the client that the server takes incremental changes of text documents
+      textDocumentSync: TextDocumentSyncKind.Incremental,
+      // paths in url() and @import are completed a directory at a time
+      completionProvider: snippetSupport
+        ? { resolveProvider: false, triggerCharacters: ["/"] }
+        : undefined,
       hoverProvider: true,
       documentSymbolProvider: true,
       referencesProvider: true,
       definitionProvider: true,
       documentHighlightProvider: true,
+      documentLinkProvider: { resolveProvider: false },
       codeActionProvider: true,
-      renameProvider: false,
+      renameProvider: prepareRenameSupport ? { prepareProvider: true } : true,
       colorProvider: true,
+      documentFormattingProvider: true,
+      documentRangeFormattingProvider: true,
+      foldingRangeProvider: true,
+      selectionRangeProvider: true,
+      workspaceSymbolProvider: true,
+      semanticTokensProvider: {
+        legend: semanticTokensLegend,
+        documentProvider: true,
+        rangeProvider: true,
+      },
     };
     return { capabilities };
   }
 );
 
-const cssLanguageService: LanguageService = getSCSSLanguageService();
+let globalSettings: StyledJsxSettings = {};
 
 let documentSettings: {
-  [key: string]: Thenable<LanguageSettings | undefined>;
+  [key: string]: Thenable<StyledJsxSettings | undefined>;
 } = {};
 
 // remove document settings on close
-documents.onDidClose((e: TextDocumentChangeEvent) => {
+documents.onDidClose((e: TextDocumentChangeEvent<TextDocument>) => {
   delete documentSettings[e.document.uri];
 });
 
-function getDocumentSettings(textDocument: TextDocument): Thenable<LanguageSettings | undefined> {
+function getDocumentSettings(textDocument: TextDocument): Thenable<StyledJsxSettings | undefined> {
   if (scopedSettingsSupport) {
-    let promise: Thenable<LanguageSettings | undefined> = documentSettings[textDocument.uri];
+    let promise: Thenable<StyledJsxSettings | undefined> = documentSettings[textDocument.uri];
     if (!promise) {
+      // styledJsx.* settings fall back to the css.* ones
       const configRequestParam: ConfigurationParams = {
-        items: [{ scopeUri: textDocument.uri, section: "css" }],
+        items: [
+          { scopeUri: textDocument.uri, section: "styledJsx" },
+          { scopeUri: textDocument.uri, section: "css" },
+        ],
       };
       promise = connection
         .sendRequest(ConfigurationRequest.type, configRequestParam)
-        .then((s) => s[0]);
+        .then((s) => mergeSettings(s[0], s[1]));
       documentSettings[textDocument.uri] = promise;
     }
     return promise;
   }
-  return Promise.resolve(void 0);
+  return Promise.resolve(globalSettings);
 }
 
 // The settings have changed. Is send on server activation as well.
 connection.onDidChangeConfiguration((change: DidChangeConfigurationParams): void => {
-  updateConfiguration(<LanguageSettings>change.settings.css);
+  updateConfiguration(mergeSettings(change.settings.styledJsx, change.settings.css));
 });
 
-function updateConfiguration(settings: LanguageSettings): void {
-  cssLanguageService.configure(settings);
+function updateConfiguration(settings: StyledJsxSettings): void {
+  globalSettings = settings;
+  styledJsxLanguageService.configure(settings);
   // reset all document settings
   documentSettings = {};
   // Revalidate any open text documents
   documents.all().forEach(triggerValidation);
+  // the tags, modules and dialect may have changed what the files define
+  indexWorkspace();
+}
+
+let workspaceScan: number = 0;
+
+function isOpen(fileName: string): boolean {
+  return documents.all().some((document) => getFileName(document.uri) === fileName);
 }
 
+// Indexes the global styles of the whole workspace in the background
+function indexWorkspace(): void {
+  const scan = ++workspaceScan;
+  styledJsxLanguageService.clearIndex();
+  if (!isFeatureEnabled(globalSettings, "workspaceIndex")) {
+    return;
+  }
+  documents.all().forEach((document) => styledJsxLanguageService.indexDocument(document));
+  scanWorkspace(
+    workspaceFolders,
+    (fileName) => {
+      if (!isOpen(fileName)) {
+        styledJsxLanguageService.indexFile(fileName);
+      }
+    },
+    () => scan !== workspaceScan,
+    // classes defined elsewhere are no longer reported as undefined
+    () => documents.all().forEach(triggerValidation)
+  );
+}
+
+// A babel config has changed, which may switch the dialect of documents,
+// a tsconfig.json, which changes how interpolations are resolved, or a stylelint config.
+// Changes to scripts that aren't open update the workspace index.
+connection.onDidChangeWatchedFiles((change: DidChangeWatchedFilesParams): void => {
+  let configChanged = false;
+  for (const { uri, type } of change.changes) {
+    const fileName = getFileName(uri);
+    if (
+      !fileName ||
+      !isScriptFile(fileName) ||
+      babelConfigFiles.indexOf(path.basename(fileName)) !== -1 ||
+      stylelintConfigFiles.indexOf(path.basename(fileName)) !== -1
+    ) {
+      configChanged = true;
+    } else if (type === FileChangeType.Deleted) {
+      styledJsxLanguageService.removeFromIndex(fileName);
+    } else if (!isOpen(fileName)) {
+      styledJsxLanguageService.indexFile(fileName);
+    }
+  }
+  if (configChanged) {
+    styledJsxLanguageService.onConfigFilesChanged();
+    documents.all().forEach(triggerValidation);
+  }
+});
+
 const pendingValidationRequests: { [uri: string]: NodeJS.Timer } = {};
-const validationDelayMs: number = 200;
+// documents whose debounce has passed, validated one at a time
+const validationQueue: string[] = [];
+let validationScheduled: boolean = false;
+const defaultValidationDelayMs: number = 200;
+
+// The client tells which document is in the active editor, it is validated first
+namespace ActiveDocumentNotification {
+  export const type: NotificationType<{ uri: string | undefined }, void> = new NotificationType(
+    "styledJsx/activeDocument"
+  );
+}
+let activeDocumentUri: string | undefined = void 0;
+
+connection.onNotification(ActiveDocumentNotification.type, (params) => {
+  activeDocumentUri = params.uri;
+});
+
+function getValidationDelay(): number {
+  const delay = globalSettings.validationDelay;
+  return typeof delay === "number" && delay >= 0 ? delay : defaultValidationDelayMs;
+}
 
 // The content of a text document has changed. This event is emitted
 // when the text document first opened or when its content has changed.
-documents.onDidChangeContent((change: TextDocumentChangeEvent) => {
+documents.onDidChangeContent((change: TextDocumentChangeEvent<TextDocument>) => {
   triggerValidation(change.document);
 });
 
-// a document has closed: clear all diagnostics
-documents.onDidClose((event: TextDocumentChangeEvent) => {
+// a document has closed: clear all diagnostics, and index what is saved on disk
+documents.onDidClose((event: TextDocumentChangeEvent<TextDocument>) => {
   clearDiagnostics(event.document);
+  const fileName = getFileName(event.document.uri);
+  if (fileName) {
+    styledJsxLanguageService.indexFile(fileName);
+  }
 });
 
 function clearDiagnostics(document: TextDocument): void {
@@ -180,220 +318,482 @@ function cleanPendingValidation(textDocument: TextDocument): void {
     clearTimeout(request);
     delete pendingValidationRequests[textDocument.uri];
   }
+  const index = validationQueue.indexOf(textDocument.uri);
+  if (index !== -1) {
+    validationQueue.splice(index, 1);
+  }
 }
 
 function triggerValidation(textDocument: TextDocument): void {
   cleanPendingValidation(textDocument);
   pendingValidationRequests[textDocument.uri] = setTimeout(() => {
     delete pendingValidationRequests[textDocument.uri];
-    validateTextDocument(textDocument);
-  }, validationDelayMs);
+    validationQueue.push(textDocument.uri);
+    scheduleValidation();
+  }, getValidationDelay());
 }
 
-function validateTextDocument(document: TextDocument): void {
-  const settingsPromise = getDocumentSettings(document);
-  settingsPromise.then((settings) => {
-    const styledJsx: StyledJsx | undefined = getStyledJsx(document, stylesheets);
-    if (styledJsx) {
-      const { cssDocument, stylesheet } = styledJsx;
-      const diagnostics = cssLanguageService.doValidation(cssDocument, stylesheet, settings);
-      connection.sendDiagnostics({ uri: document.uri, diagnostics });
+// Validates the queued documents, the active one first. Requests that came in
+// meanwhile are answered between two documents.
+function scheduleValidation(): void {
+  if (validationScheduled || validationQueue.length === 0) {
+    return;
+  }
+  validationScheduled = true;
+  setImmediate(() => {
+    const index = activeDocumentUri ? validationQueue.indexOf(activeDocumentUri) : -1;
+    const [uri] = validationQueue.splice(Math.max(index, 0), 1);
+    const document: TextDocument | undefined = documents.get(uri);
+    const done = () => {
+      validationScheduled = false;
+      scheduleValidation();
+    };
+    if (document) {
+      validateTextDocument(document).then(done, done);
     } else {
-      clearDiagnostics(document);
+      done();
     }
   });
 }
 
-connection.onCompletion((textDocumentPosition: CompletionParams):
-  | CompletionList
-  | undefined
-  | null => {
-  const document: TextDocument | undefined = documents.get(textDocumentPosition.textDocument.uri);
+function validateTextDocument(textDocument: TextDocument): Thenable<void> {
+  const { uri, version } = textDocument;
+  return getDocumentSettings(textDocument).then((settings) => {
+    // the document changed while the settings were fetched, its new version is validated instead
+    const document: TextDocument | undefined = documents.get(uri);
+    if (!document || document.version !== version) {
+      return;
+    }
+    const diagnostics = styledJsxLanguageService.doValidation(document, settings);
+    styledJsxLanguageService.indexDocument(document);
+    // stylelint runs asynchronously, its problems are sent together with the others
+    return styledJsxLanguageService
+      .doStylelintValidation(document, settings)
+      .then(undefined, (e) => {
+        connection.console.error(formatError(`Error while running stylelint on ${uri}`, e));
+        return [];
+      })
+      .then((stylelintDiagnostics) => {
+        const current: TextDocument | undefined = documents.get(uri);
+        if (current && current.version === version) {
+          connection.sendDiagnostics({
+            uri,
+            version,
+            diagnostics: diagnostics.concat(stylelintDiagnostics),
+          });
+        }
+      });
+  });
+}
 
-  if (!document) {
-    return undefined;
-  }
+connection.onCompletion((textDocumentPosition: CompletionParams, token: CancellationToken) =>
+  runSafe(
+    (): CompletionList | undefined | null => {
+      const document: TextDocument | undefined = documents.get(
+        textDocumentPosition.textDocument.uri
+      );
+      if (!document) {
+        return undefined;
+      }
+      return styledJsxLanguageService.doComplete(document, textDocumentPosition.position);
+    },
+    null,
+    `Error while computing completions for ${textDocumentPosition.textDocument.uri}`,
+    token
+  )
+);
 
-  const cursorOffset: number = document.offsetAt(textDocumentPosition.position);
+connection.onHover((textDocumentPosition: TextDocumentPositionParams, token: CancellationToken) =>
+  runSafe(
+    (): Hover | undefined | null => {
+      const document: TextDocument | undefined = documents.get(
+        textDocumentPosition.textDocument.uri
+      );
+      if (!document) {
+        return null;
+      }
+      return styledJsxLanguageService.doHover(document, textDocumentPosition.position);
+    },
+    null,
+    `Error while computing hover for ${textDocumentPosition.textDocument.uri}`,
+    token
+  )
+);
 
-  const styledJsx: StyledJsx | undefined = getStyledJsxUnderCursor(
-    document,
-    stylesheets,
-    cursorOffset
-  );
+connection.onDocumentSymbol(
+  (documentSymbolParams: DocumentSymbolParams, token: CancellationToken) =>
+    runSafe(
+      (): SymbolInformation[] | DocumentSymbol[] | undefined | null => {
+        const document: TextDocument | undefined = documents.get(
+          documentSymbolParams.textDocument.uri
+        );
+        if (!document) {
+          return null;
+        }
+        return styledJsxLanguageService.findDocumentSymbols(document);
+      },
+      null,
+      `Error while computing document symbols for ${documentSymbolParams.textDocument.uri}`,
+      token
+    )
+);
 
-  if (styledJsx) {
-    const { cssDocument, stylesheet } = styledJsx;
-    return cssLanguageService.doComplete(cssDocument, textDocumentPosition.position, stylesheet);
-  }
-  return null;
-});
+connection.onDefinition(
+  (documentSymbolParams: TextDocumentPositionParams, token: CancellationToken) =>
+    runSafe(
+      (): Definition | DefinitionLink[] | undefined | null => {
+        const document: TextDocument | undefined = documents.get(
+          documentSymbolParams.textDocument.uri
+        );
+        if (!document) {
+          return null;
+        }
+        return styledJsxLanguageService.findDefinition(document, documentSymbolParams.position);
+      },
+      null,
+      `Error while computing definitions for ${documentSymbolParams.textDocument.uri}`,
+      token
+    )
+);
 
-connection.onHover((textDocumentPosition: TextDocumentPositionParams): Hover | undefined | null => {
-  const document: TextDocument | undefined = documents.get(textDocumentPosition.textDocument.uri);
-  if (!document) {
-    return null;
-  }
+connection.onDocumentHighlight(
+  (documentHighlightParams: TextDocumentPositionParams, token: CancellationToken) =>
+    runSafe(
+      (): DocumentHighlight[] | undefined | null => {
+        const document: TextDocument | undefined = documents.get(
+          documentHighlightParams.textDocument.uri
+        );
+        if (!document) {
+          return null;
+        }
+        return styledJsxLanguageService.findDocumentHighlights(
+          document,
+          documentHighlightParams.position
+        );
+      },
+      null,
+      `Error while computing document highlights for ${documentHighlightParams.textDocument.uri}`,
+      token
+    )
+);
 
-  const styledJsx: StyledJsx | undefined = getStyledJsx(document, stylesheets);
+connection.onDocumentLinks((documentLinkParams: DocumentLinkParams, token: CancellationToken) =>
+  runSafe(
+    (): DocumentLink[] | undefined | null => {
+      const document: TextDocument | undefined = documents.get(documentLinkParams.textDocument.uri);
+      if (!document) {
+        return null;
+      }
+      return styledJsxLanguageService.findDocumentLinks(document);
+    },
+    null,
+    `Error while computing document links for ${documentLinkParams.textDocument.uri}`,
+    token
+  )
+);
 
-  if (styledJsx) {
-    const { cssDocument, stylesheet } = styledJsx;
-    return cssLanguageService.doHover(cssDocument, textDocumentPosition.position, stylesheet);
-  }
-  return null;
-});
+connection.onWorkspaceSymbol((params: WorkspaceSymbolParams, token: CancellationToken) =>
+  runSafe(
+    (): SymbolInformation[] | undefined | null =>
+      styledJsxLanguageService.findWorkspaceSymbols(params.query),
+    null,
+    `Error while computing workspace symbols for ${params.query}`,
+    token
+  )
+);
 
-connection.onDocumentSymbol((documentSymbolParams: DocumentSymbolParams):
-  | SymbolInformation[]
-  | DocumentSymbol[]
-  | undefined
-  | null => {
-  const document: TextDocument | undefined = documents.get(documentSymbolParams.textDocument.uri);
-  if (!document) {
-    return null;
-  }
+connection.onReferences((referenceParams: ReferenceParams, token: CancellationToken) =>
+  runSafe(
+    (): Location[] | undefined | null => {
+      const document: TextDocument | undefined = documents.get(referenceParams.textDocument.uri);
+      if (!document) {
+        return null;
+      }
+      return styledJsxLanguageService.findReferences(document, referenceParams.position);
+    },
+    null,
+    `Error while computing references for ${referenceParams.textDocument.uri}`,
+    token
+  )
+);
 
-  const styledJsx: StyledJsx | undefined = getStyledJsx(document, stylesheets);
-  if (styledJsx) {
-    const { cssDocument, stylesheet } = styledJsx;
-    return cssLanguageService.findDocumentSymbols(cssDocument, stylesheet);
-  }
-  return null;
-});
+connection.onCodeAction((codeActionParams: CodeActionParams, token: CancellationToken) =>
+  runSafe<(Command | CodeAction)[] | undefined | null, void>(
+    (): (Command | CodeAction)[] | undefined | null => {
+      const document: TextDocument | undefined = documents.get(codeActionParams.textDocument.uri);
+      if (!document) {
+        return null;
+      }
+      return styledJsxLanguageService.doCodeActions(
+        document,
+        codeActionParams.range,
+        codeActionParams.context
+      );
+    },
+    null,
+    `Error while computing code actions for ${codeActionParams.textDocument.uri}`,
+    token
+  ).then((actions) => {
+    // the fixes of stylelint come after the others
+    const document: TextDocument | undefined = documents.get(codeActionParams.textDocument.uri);
+    if (!document || actions instanceof ResponseError) {
+      return actions;
+    }
+    return styledJsxLanguageService
+      .doStylelintCodeActions(document, codeActionParams.range, codeActionParams.context)
+      .then(
+        (fixes): (Command | CodeAction)[] | undefined | null =>
+          fixes.length > 0 ? (actions || []).concat(fixes) : actions,
+        (e) => {
+          connection.console.error(
+            formatError(`Error while running stylelint on ${codeActionParams.textDocument.uri}`, e)
+          );
+          return actions;
+        }
+      );
+  })
+);
 
-connection.onDefinition((documentSymbolParams: TextDocumentPositionParams):
-  | Definition
-  | DefinitionLink[]
-  | undefined
-  | null => {
-  const document: TextDocument | undefined = documents.get(documentSymbolParams.textDocument.uri);
-  if (!document) {
-    return null;
-  }
+connection.onDocumentColor((params: DocumentColorParams, token: CancellationToken) =>
+  runSafe(
+    (): ColorInformation[] | undefined | null => {
+      const document: TextDocument | undefined = documents.get(params.textDocument.uri);
+      if (!document) {
+        return [];
+      }
+      return styledJsxLanguageService.findDocumentColors(document);
+    },
+    null,
+    `Error while computing document colors for ${params.textDocument.uri}`,
+    token
+  )
+);
 
-  const styledJsx: StyledJsx | undefined = getStyledJsx(document, stylesheets);
-  if (styledJsx) {
-    const { cssDocument, stylesheet } = styledJsx;
-    return cssLanguageService.findDefinition(
-      cssDocument,
-      documentSymbolParams.position,
-      stylesheet
-    );
-  }
-  return null;
-});
+connection.onColorPresentation((params: ColorPresentationParams, token: CancellationToken) =>
+  runSafe(
+    (): ColorPresentation[] | undefined | null => {
+      const document: TextDocument | undefined = documents.get(params.textDocument.uri);
+      if (!document) {
+        return [];
+      }
+      return styledJsxLanguageService.getColorPresentations(document, params.color, params.range);
+    },
+    null,
+    `Error while computing color presentations for ${params.textDocument.uri}`,
+    token
+  )
+);
 
-connection.onDocumentHighlight((documentHighlightParams: TextDocumentPositionParams):
-  | DocumentHighlight[]
-  | undefined
-  | null => {
-  const document: TextDocument | undefined = documents.get(
-    documentHighlightParams.textDocument.uri
-  );
-  if (!document) {
-    return null;
-  }
+connection.onPrepareRename((params: TextDocumentPositionParams, token: CancellationToken) =>
+  runSafe(
+    (): Range | ResponseError<void> | undefined | null => {
+      const document: TextDocument | undefined = documents.get(params.textDocument.uri);
+      if (!document) {
+        return null;
+      }
+      return styledJsxLanguageService.prepareRename(document, params.position);
+    },
+    null,
+    `Error while preparing rename for ${params.textDocument.uri}`,
+    token
+  )
+);
 
-  const styledJsx: StyledJsx | undefined = getStyledJsx(document, stylesheets);
-  if (styledJsx) {
-    const { cssDocument, stylesheet } = styledJsx;
-    return cssLanguageService.findDocumentHighlights(
-      cssDocument,
-      documentHighlightParams.position,
-      stylesheet
-    );
-  }
-  return null;
-});
+connection.onRenameRequest((renameParameters: RenameParams, token: CancellationToken) =>
+  runSafe(
+    (): WorkspaceEdit | ResponseError<void> | undefined | null => {
+      const document: TextDocument | undefined = documents.get(renameParameters.textDocument.uri);
+      if (!document) {
+        return null;
+      }
+      return styledJsxLanguageService.doRename(
+        document,
+        renameParameters.position,
+        renameParameters.newName
+      );
+    },
+    null,
+    `Error while computing rename for ${renameParameters.textDocument.uri}`,
+    token
+  )
+);
 
-connection.onReferences((referenceParams: ReferenceParams): Location[] | undefined | null => {
-  const document: TextDocument | undefined = documents.get(referenceParams.textDocument.uri);
-  if (!document) {
-    return null;
-  }
+connection.onDocumentFormatting((params: DocumentFormattingParams, token: CancellationToken) =>
+  runSafe(
+    (): TextEdit[] | undefined | null => {
+      const document: TextDocument | undefined = documents.get(params.textDocument.uri);
+      if (!document) {
+        return null;
+      }
+      return styledJsxLanguageService.format(document, undefined, params.options);
+    },
+    null,
+    `Error while formatting for ${params.textDocument.uri}`,
+    token
+  )
+);
 
-  const styledJsx: StyledJsx | undefined = getStyledJsx(document, stylesheets);
-  if (styledJsx) {
-    const { cssDocument, stylesheet } = styledJsx;
-    return cssLanguageService.findReferences(cssDocument, referenceParams.position, stylesheet);
-  }
-  return null;
-});
+connection.onDocumentRangeFormatting(
+  (params: DocumentRangeFormattingParams, token: CancellationToken) =>
+    runSafe(
+      (): TextEdit[] | undefined | null => {
+        const document: TextDocument | undefined = documents.get(params.textDocument.uri);
+        if (!document) {
+          return null;
+        }
+        return styledJsxLanguageService.format(document, params.range, params.options);
+      },
+      null,
+      `Error while formatting range for ${params.textDocument.uri}`,
+      token
+    )
+);
 
-connection.onCodeAction((codeActionParams: CodeActionParams):
-  | (Command | CodeAction)[]
-  | undefined
-  | null => {
-  const document: TextDocument | undefined = documents.get(codeActionParams.textDocument.uri);
-  if (!document) {
-    return null;
-  }
+connection.onFoldingRanges((params: FoldingRangeParams, token: CancellationToken) =>
+  runSafe(
+    (): FoldingRange[] | undefined | null => {
+      const document: TextDocument | undefined = documents.get(params.textDocument.uri);
+      if (!document) {
+        return null;
+      }
+      return styledJsxLanguageService.getFoldingRanges(document, {
+        rangeLimit: foldingRangeLimit,
+      });
+    },
+    null,
+    `Error while computing folding ranges for ${params.textDocument.uri}`,
+    token
+  )
+);
 
-  const styledJsx: StyledJsx | undefined = getStyledJsx(document, stylesheets);
-  if (styledJsx) {
-    const { cssDocument, stylesheet } = styledJsx;
-    return cssLanguageService.doCodeActions(
-      cssDocument,
-      codeActionParams.range,
-      codeActionParams.context,
-      stylesheet
-    );
-  }
-  return null;
-});
+connection.onSelectionRanges((params: SelectionRangeParams, token: CancellationToken) =>
+  runSafe(
+    (): SelectionRange[] | undefined | null => {
+      const document: TextDocument | undefined = documents.get(params.textDocument.uri);
+      if (!document) {
+        return null;
+      }
+      return styledJsxLanguageService.getSelectionRanges(document, params.positions);
+    },
+    null,
+    `Error while computing selection ranges for ${params.textDocument.uri}`,
+    token
+  )
+);
 
-connection.onDocumentColor((params: DocumentColorParams): ColorInformation[] | undefined | null => {
-  const document: TextDocument | undefined = documents.get(params.textDocument.uri);
-  if (document) {
-    const styledJsx: StyledJsx | undefined = getStyledJsx(document, stylesheets);
-    if (styledJsx) {
-      const { cssDocument, stylesheet } = styledJsx;
-      return cssLanguageService.findDocumentColors(cssDocument, stylesheet);
-    }
-  }
-  return [];
-});
+// null for documents without templates, which leaves their highlighting to other servers.
+// The requests are handled directly, the typings of the proposed handlers don't allow null.
+connection.onRequest(
+  Proposed.SemanticTokensRequest.type,
+  (params: Proposed.SemanticTokensParams, token) =>
+    runSafe<Proposed.SemanticTokens | null, void>(
+      (): Proposed.SemanticTokens | null => {
+        const document: TextDocument | undefined = documents.get(params.textDocument.uri);
+        if (!document) {
+          return null;
+        }
+        return styledJsxLanguageService.getSemanticTokens(document);
+      },
+      null,
+      `Error while computing semantic tokens for ${params.textDocument.uri}`,
+      token
+    )
+);
 
-connection.onColorPresentation((params: ColorPresentationParams):
-  | ColorPresentation[]
-  | undefined
-  | null => {
-  const document: TextDocument | undefined = documents.get(params.textDocument.uri);
-  if (document) {
-    const styledJsx: StyledJsx | undefined = getStyledJsx(document, stylesheets);
-
-    if (styledJsx) {
-      const { cssDocument, stylesheet } = styledJsx;
-      return cssLanguageService.getColorPresentations(
-        cssDocument,
-        stylesheet,
-        params.color,
-        params.range
+connection.onRequest(
+  Proposed.SemanticTokensRangeRequest.type,
+  (params: Proposed.SemanticTokensRangeParams, token) =>
+    runSafe<Proposed.SemanticTokens | null, void>(
+      (): Proposed.SemanticTokens | null => {
+        const document: TextDocument | undefined = documents.get(params.textDocument.uri);
+        if (!document) {
+          return null;
+        }
+        return styledJsxLanguageService.getSemanticTokens(document, params.range);
+      },
+      null,
+      `Error while computing semantic tokens for ${params.textDocument.uri}`,
+      token
+    )
+);
+
+// What the server analyzes and what styled-jsx would emit, for clients to preview
+namespace ExtractedCssRequest {
+  export const type: RequestType<
+    { textDocument: TextDocumentIdentifier },
+    string | null,
+    void,
+    void
+  > = new RequestType("styledJsx/extractedCss");
+}
+
+namespace CompiledOutputRequest {
+  export const type: RequestType<
+    { textDocument: TextDocumentIdentifier },
+    string | null,
+    void,
+    void
+  > = new RequestType("styledJsx/compiledOutput");
+}
+
+// The command of the code action asks for the class name, then for the edit
+namespace ConvertInlineStyleRequest {
+  export const type: RequestType<
+    { textDocument: TextDocumentIdentifier; position: Position; className: string },
+    WorkspaceEdit | null,
+    void,
+    void
+  > = new RequestType("styledJsx/convertInlineStyle");
+}
+
+connection.onRequest(ConvertInlineStyleRequest.type, (params, token) =>
+  runSafe(
+    (): WorkspaceEdit | ResponseError<void> | null => {
+      const document: TextDocument | undefined = documents.get(params.textDocument.uri);
+      if (!document) {
+        return null;
+      }
+      return styledJsxLanguageService.convertInlineStyle(
+        document,
+        params.position,
+        params.className
       );
-    }
-  }
-  return [];
-});
+    },
+    null,
+    `Error while converting the inline style in ${params.textDocument.uri}`,
+    token
+  )
+);
 
-connection.onRenameRequest((renameParameters: RenameParams): WorkspaceEdit | undefined | null => {
-  const document: TextDocument | undefined = documents.get(renameParameters.textDocument.uri);
-  if (!document) {
-    return null;
-  }
+connection.onRequest(ExtractedCssRequest.type, (params, token) =>
+  runSafe(
+    (): string | null => {
+      const document: TextDocument | undefined = documents.get(params.textDocument.uri);
+      if (!document) {
+        return null;
+      }
+      return styledJsxLanguageService.getExtractedCss(document);
+    },
+    null,
+    `Error while extracting the CSS of ${params.textDocument.uri}`,
+    token
+  )
+);
 
-  const styledJsx: StyledJsx | undefined = getStyledJsx(document, stylesheets);
-  if (styledJsx) {
-    const { cssDocument, stylesheet } = styledJsx;
-    return cssLanguageService.doRename(
-      cssDocument,
-      renameParameters.position,
-      renameParameters.newName,
-      stylesheet
-    );
-  }
-  return null;
-});
+connection.onRequest(CompiledOutputRequest.type, (params, token) =>
+  runSafe(
+    (): string | null => {
+      const document: TextDocument | undefined = documents.get(params.textDocument.uri);
+      if (!document) {
+        return null;
+      }
+      return styledJsxLanguageService.getCompiledOutput(document);
+    },
+    null,
+    `Error while compiling the CSS of ${params.textDocument.uri}`,
+    token
+  )
+);
 
 // Listen on the connection
 connection.listen();
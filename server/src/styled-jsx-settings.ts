@@ -0,0 +1,90 @@
+/* eslint-disable no-unused-vars */
+import { LanguageSettings, CompletionSettings } from "vscode-css-languageservice";
+
+export interface FeatureSettings {
+  enable?: boolean;
+}
+
+export type StyledJsxDialect = "css" | "scss" | "less";
+
+// The styledJsx.* settings. Whatever isn't set there is taken from css.*
+export interface StyledJsxSettings extends LanguageSettings {
+  completion?: CompletionSettings & FeatureSettings;
+  hover?: FeatureSettings;
+  documentSymbols?: FeatureSettings;
+  navigation?: FeatureSettings;
+  codeActions?: FeatureSettings;
+  rename?: FeatureSettings;
+  colors?: FeatureSettings;
+  format?: FeatureSettings;
+  folding?: FeatureSettings;
+  selectionRange?: FeatureSettings;
+  classNames?: FeatureSettings;
+  // types and values of interpolations, from TypeScript
+  interpolationValues?: FeatureSettings;
+  // classes, custom properties and keyframes that other files define globally
+  workspaceIndex?: FeatureSettings;
+  // highlighting of the CSS in templates
+  semanticTokens?: FeatureSettings;
+  // links of url() and @import in templates
+  documentLinks?: FeatureSettings;
+  // the workspace's stylelint over the CSS of templates
+  stylelint?: FeatureSettings;
+  // auto reads it from the styled-jsx plugins in the babel config
+  dialect?: StyledJsxDialect | "auto";
+  // whether styled-jsx adds vendor prefixes, auto reads it from the babel config
+  vendorPrefixes?: boolean | "auto";
+  // milliseconds to wait after a change before validating
+  validationDelay?: number;
+  // tags of tagged templates that hold styled-jsx CSS, besides the imported ones
+  tags?: string[];
+  // modules that re-export styled-jsx/css
+  modules?: string[];
+  // the directory served at /, relative to the nearest package.json
+  publicDirectory?: string;
+}
+
+export type StyledJsxFeature =
+  | "completion"
+  | "hover"
+  | "documentSymbols"
+  | "navigation"
+  | "codeActions"
+  | "rename"
+  | "colors"
+  | "format"
+  | "folding"
+  | "selectionRange"
+  | "classNames"
+  | "interpolationValues"
+  | "workspaceIndex"
+  | "semanticTokens"
+  | "documentLinks"
+  | "stylelint";
+
+function isObject(value: any): boolean {
+  return typeof value === "object" && value !== null && !Array.isArray(value);
+}
+
+function merge(value: any, fallback: any): any {
+  if (value === null || value === undefined) {
+    return fallback;
+  }
+  if (isObject(value) && isObject(fallback)) {
+    const result: any = { ...fallback };
+    for (const key of Object.keys(value)) {
+      result[key] = merge(value[key], fallback[key]);
+    }
+    return result;
+  }
+  return value;
+}
+
+export function mergeSettings(styledJsx: any, css: any): StyledJsxSettings {
+  return merge(styledJsx || {}, css || {});
+}
+
+export function isFeatureEnabled(settings: StyledJsxSettings, feature: StyledJsxFeature): boolean {
+  const featureSettings: FeatureSettings | undefined = settings[feature];
+  return !featureSettings || featureSettings.enable !== false;
+}
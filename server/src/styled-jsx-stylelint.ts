@@ -0,0 +1,363 @@
+/* eslint-disable no-unused-vars */
+import * as fs from "fs";
+import * as path from "path";
+import { fileURLToPath } from "url";
+import { Diagnostic, DiagnosticSeverity, Range, TextEdit } from "vscode-languageserver";
+import { TextDocument } from "vscode-languageserver-textdocument";
+import { StyledJsx, StyledJsxTaggedTemplate } from "./styled-jsx-utils";
+
+// The part of the stylelint API the server uses
+interface StylelintWarning {
+  line: number;
+  column: number;
+  endLine?: number;
+  endColumn?: number;
+  rule: string;
+  severity: string;
+  text: string;
+}
+
+interface StylelintLinterResult {
+  results: { ignored?: boolean; warnings: StylelintWarning[] }[];
+  // the fixed code, called code by newer versions
+  output: string;
+  code?: string;
+}
+
+interface Stylelint {
+  lint(options: {
+    code: string;
+    codeFilename: string;
+    syntax: string;
+    fix?: boolean;
+  }): Promise<StylelintLinterResult>;
+}
+
+// Runs the stylelint installed in the workspace over the CSS of templates
+export interface StylelintRunner {
+  // the warnings of every template, in the host document
+  lint(document: TextDocument, styledJsx: StyledJsx): Promise<Diagnostic[]>;
+  // the template with all that stylelint can fix fixed, undefined when nothing changes
+  fix(
+    document: TextDocument,
+    template: StyledJsxTaggedTemplate,
+    dialect: string
+  ): Promise<TextEdit | undefined>;
+  // config files or installed packages have changed
+  reset(): void;
+}
+
+// config files stylelint looks up, besides the stylelint block of a package.json
+export const stylelintConfigFiles: string[] = [
+  ".stylelintrc",
+  ".stylelintrc.json",
+  ".stylelintrc.yaml",
+  ".stylelintrc.yml",
+  ".stylelintrc.js",
+  "stylelint.config.js",
+];
+
+// The CSS of a template as stylelint sees it in a file of its own: without the lines
+// around it and the indentation it has in the code
+interface TemplateCode {
+  code: string;
+  indent: string;
+  // what comes before the first line and after the last one
+  leading: string;
+  trailing: string;
+  // offset in the host document of each line of code
+  lineOffsets: number[];
+}
+
+function getTemplateCode(text: string, start: number, end: number): TemplateCode | undefined {
+  const content = text.slice(start, end);
+  const firstLine = /^(?:[ \t]*\n)*/.exec(content)![0].length;
+  const lastLine = content.search(/\s*$/);
+  if (lastLine <= firstLine) {
+    return undefined;
+  }
+  const lines = content.slice(firstLine, lastLine).split("\n");
+  const indentLength = Math.min(
+    ...lines.filter((line) => line.trim()).map((line) => line.search(/\S/))
+  );
+  const indent = lines[0].slice(0, indentLength);
+  const lineOffsets: number[] = [];
+  let offset = start + firstLine;
+  const code = lines
+    .map((line) => {
+      const stripped = line.trim() ? indentLength : line.length;
+      lineOffsets.push(offset + stripped);
+      offset += line.length + 1;
+      return line.slice(stripped);
+    })
+    .join("\n");
+  return {
+    code: code + "\n",
+    indent,
+    leading: content.slice(0, firstLine),
+    trailing: content.slice(lastLine),
+    lineOffsets,
+  };
+}
+
+function getOffset(templateCode: TemplateCode, line: number, column: number): number {
+  const { lineOffsets } = templateCode;
+  const index = Math.max(0, Math.min(line, lineOffsets.length) - 1);
+  return lineOffsets[index] + Math.max(0, column - 1);
+}
+
+// Where an interpolation is in the code given to stylelint for fixing
+interface InterpolationToken {
+  text: string;
+  // matches the token after stylelint changed the spacing around it
+  pattern: RegExp;
+}
+
+// Tokens that stylelint leaves alone and that are found again in the fixed code. They are
+// plain identifiers, even for properties, so that no rule of custom properties applies.
+function getInterpolationTokens(
+  text: string,
+  template: StyledJsxTaggedTemplate
+): InterpolationToken[] {
+  return template.interpolations.map((interpolation, index) => {
+    const name = `__styledjsx${index}__`;
+    if (interpolation.kind !== "declaration") {
+      return { text: name, pattern: new RegExp(name, "g") };
+    }
+    const semicolon = !/^\s*;/.test(text.slice(interpolation.end));
+    return {
+      text: `${name}: 0${semicolon ? ";" : ""}`,
+      pattern: new RegExp(`${name}\\s*:\\s*0${semicolon ? "\\s*;" : ""}`, "g"),
+    };
+  });
+}
+
+function tokenizeInterpolations(
+  text: string,
+  template: StyledJsxTaggedTemplate,
+  tokens: InterpolationToken[]
+): string {
+  let result = "";
+  let offset = template.start;
+  template.interpolations.forEach((interpolation, index) => {
+    result += text.slice(offset, interpolation.start) + tokens[index].text;
+    offset = interpolation.end;
+  });
+  return result + text.slice(offset, template.end);
+}
+
+// The offset in the host document of an offset in the tokenized template, the start of the
+// interpolation for one inside a token
+function getHostOffset(
+  template: StyledJsxTaggedTemplate,
+  tokens: InterpolationToken[],
+  offset: number
+): number {
+  let hostOffset = template.start;
+  let tokenizedOffset = 0;
+  for (let index = 0; index < template.interpolations.length; index++) {
+    const interpolation = template.interpolations[index];
+    const before = interpolation.start - hostOffset;
+    if (offset < tokenizedOffset + before) {
+      break;
+    }
+    tokenizedOffset += before;
+    if (offset < tokenizedOffset + tokens[index].text.length) {
+      return interpolation.start;
+    }
+    tokenizedOffset += tokens[index].text.length;
+    hostOffset = interpolation.end;
+  }
+  return hostOffset + offset - tokenizedOffset;
+}
+
+// The fixed code with its interpolations back, undefined when one has been lost or copied
+function restoreInterpolations(
+  code: string,
+  text: string,
+  template: StyledJsxTaggedTemplate,
+  tokens: InterpolationToken[]
+): string | undefined {
+  let result: string | undefined = code;
+  template.interpolations.forEach((interpolation, index) => {
+    const { pattern } = tokens[index];
+    const matches = result !== undefined ? result.match(pattern) : null;
+    result =
+      result !== undefined && matches && matches.length === 1
+        ? result.replace(pattern, () => text.slice(interpolation.start, interpolation.end))
+        : undefined;
+  });
+  return result;
+}
+
+function getFileName(document: TextDocument): string | undefined {
+  try {
+    return fileURLToPath(document.uri);
+  } catch (e) {
+    // not a file on disk, so there is no stylelint for it
+    return undefined;
+  }
+}
+
+// stylelint reports problems it can't parse as CssSyntaxError, the CSS service already does
+function isSyntaxError(warning: StylelintWarning): boolean {
+  return warning.rule === "CssSyntaxError";
+}
+
+function isMissingConfig(error: any): boolean {
+  return !!error && /No configuration provided/.test(String(error.message));
+}
+
+export function getStylelintRunner(): StylelintRunner {
+  // the stylelint module per directory, null when none is installed above it
+  let modules: { [directory: string]: Stylelint | null } = {};
+
+  const findStylelint = (directory: string): Stylelint | null => {
+    if (modules[directory] !== undefined) {
+      return modules[directory];
+    }
+    const modulePath = path.join(directory, "node_modules", "stylelint");
+    const parent = path.dirname(directory);
+    let stylelint: Stylelint | null = null;
+    if (fs.existsSync(path.join(modulePath, "package.json"))) {
+      try {
+        stylelint = require(modulePath);
+      } catch (e) {
+        // a broken install is the same as none
+      }
+    } else if (parent !== directory) {
+      stylelint = findStylelint(parent);
+    }
+    modules[directory] = stylelint;
+    return stylelint;
+  };
+
+  const run = (
+    document: TextDocument,
+    code: string,
+    dialect: string,
+    fix: boolean
+  ): Promise<StylelintLinterResult | undefined> => {
+    const fileName = getFileName(document);
+    const stylelint = fileName && findStylelint(path.dirname(fileName));
+    if (!fileName || !stylelint) {
+      return Promise.resolve(undefined);
+    }
+    // the syntax is given, or stylelint would read a .jsx file as CSS-in-JS
+    return stylelint.lint({ code, codeFilename: fileName, syntax: dialect, fix }).then(
+      (result) => result,
+      (error) => {
+        if (isMissingConfig(error)) {
+          return undefined;
+        }
+        throw error;
+      }
+    );
+  };
+
+  const lintTemplate = (
+    document: TextDocument,
+    styledJsx: StyledJsx,
+    template: StyledJsxTaggedTemplate
+  ): Promise<Diagnostic[]> => {
+    // the same code fix gives stylelint, so what is reported is what gets fixed
+    const text = document.getText();
+    const tokens = getInterpolationTokens(text, template);
+    const tokenized = tokenizeInterpolations(text, template, tokens);
+    const templateCode = getTemplateCode(tokenized, 0, tokenized.length);
+    if (!templateCode) {
+      return Promise.resolve([]);
+    }
+    const dialect = styledJsx.cssDocument.languageId;
+    // a token stands for code stylelint never sees, nor the spacing around it
+    const tokenLines = template.interpolations.map((interpolation) => ({
+      start: document.positionAt(interpolation.start).line,
+      end: document.positionAt(interpolation.end).line,
+    }));
+    return run(document, templateCode.code, dialect, false).then((result) => {
+      const [fileResult] = result ? result.results : [];
+      if (!fileResult || fileResult.ignored) {
+        return [];
+      }
+      const diagnostics: Diagnostic[] = [];
+      for (const warning of fileResult.warnings) {
+        const start = getOffset(templateCode, warning.line, warning.column);
+        const end =
+          warning.endLine !== undefined && warning.endColumn !== undefined
+            ? getOffset(templateCode, warning.endLine, warning.endColumn)
+            : start;
+        const range = Range.create(
+          document.positionAt(getHostOffset(template, tokens, start)),
+          document.positionAt(getHostOffset(template, tokens, end))
+        );
+        const onTokenLine = tokenLines.some(
+          (lines) => range.start.line <= lines.end && range.end.line >= lines.start
+        );
+        if (isSyntaxError(warning) || onTokenLine) {
+          continue;
+        }
+        diagnostics.push({
+          range,
+          severity:
+            warning.severity === "error" ? DiagnosticSeverity.Error : DiagnosticSeverity.Warning,
+          code: warning.rule,
+          source: "stylelint",
+          message: warning.text.replace(` (${warning.rule})`, ""),
+        });
+      }
+      return diagnostics;
+    });
+  };
+
+  return {
+    lint(document: TextDocument, styledJsx: StyledJsx): Promise<Diagnostic[]> {
+      return Promise.all(
+        styledJsx.styledJsxTaggedTemplates.map((template) =>
+          lintTemplate(document, styledJsx, template)
+        )
+      ).then((diagnostics) => diagnostics.reduce((result, item) => result.concat(item), []));
+    },
+
+    fix(
+      document: TextDocument,
+      template: StyledJsxTaggedTemplate,
+      dialect: string
+    ): Promise<TextEdit | undefined> {
+      const text = document.getText();
+      const tokens = getInterpolationTokens(text, template);
+      const tokenized = tokenizeInterpolations(text, template, tokens);
+      const templateCode = getTemplateCode(tokenized, 0, tokenized.length);
+      if (!templateCode) {
+        return Promise.resolve(undefined);
+      }
+      return run(document, templateCode.code, dialect, true).then((result) => {
+        if (!result || result.results.every((fileResult) => !!fileResult.ignored)) {
+          return undefined;
+        }
+        const output = typeof result.code === "string" ? result.code : result.output;
+        const fixed = output
+          .replace(/\s+$/, "")
+          .split("\n")
+          .map((line) => (line ? templateCode.indent + line : line))
+          .join("\n");
+        const newText = restoreInterpolations(
+          templateCode.leading + fixed + templateCode.trailing,
+          text,
+          template,
+          tokens
+        );
+        if (newText === undefined || newText === text.slice(template.start, template.end)) {
+          return undefined;
+        }
+        return TextEdit.replace(
+          Range.create(document.positionAt(template.start), document.positionAt(template.end)),
+          newText
+        );
+      });
+    },
+
+    reset(): void {
+      modules = {};
+    },
+  };
+}
@@ -0,0 +1,360 @@
+/* eslint-disable no-unused-vars */
+// typescript is only imported for its types, the plugin runs on the TypeScript of tsserver
+import * as ts from "typescript";
+import * as tss from "typescript/lib/tsserverlibrary";
+import { pathToFileURL } from "url";
+import {
+  CompletionItem,
+  CompletionItemKind,
+  Command,
+  CodeAction,
+  CodeActionKind,
+  Diagnostic,
+  DiagnosticSeverity,
+  Hover,
+  MarkupContent,
+  Range,
+  TextEdit,
+} from "vscode-languageserver";
+import { TextDocument } from "vscode-languageserver-textdocument";
+import {
+  StyledJsxLanguageService,
+  StyledJsxSettings,
+  getStyledJsxLanguageService,
+  getLanguageId,
+} from "./styled-jsx-language-service";
+import { mergeSettings } from "./styled-jsx-settings";
+
+// TypeScript needs a number for the code of a diagnostic, fixes are asked for by it
+const styledJsxErrorCode = 9999;
+
+// The checker of the project already knows the types of interpolations,
+// resolving them in a second TypeScript service would double the work
+const defaultSettings: StyledJsxSettings = {
+  interpolationValues: { enable: false },
+  workspaceIndex: { enable: false },
+};
+
+function getEntryKinds(typescript: typeof tss): { [kind: number]: tss.ScriptElementKind } {
+  return {
+    [CompletionItemKind.Property]: typescript.ScriptElementKind.memberVariableElement,
+    [CompletionItemKind.Function]: typescript.ScriptElementKind.functionElement,
+    [CompletionItemKind.Keyword]: typescript.ScriptElementKind.keyword,
+    [CompletionItemKind.Variable]: typescript.ScriptElementKind.variableElement,
+    [CompletionItemKind.Class]: typescript.ScriptElementKind.classElement,
+    [CompletionItemKind.Value]: typescript.ScriptElementKind.string,
+    [CompletionItemKind.Unit]: typescript.ScriptElementKind.string,
+    [CompletionItemKind.Color]: typescript.ScriptElementKind.string,
+  };
+}
+
+function getDiagnosticCategories(
+  typescript: typeof tss
+): { [severity: number]: tss.DiagnosticCategory } {
+  return {
+    [DiagnosticSeverity.Error]: typescript.DiagnosticCategory.Error,
+    [DiagnosticSeverity.Warning]: typescript.DiagnosticCategory.Warning,
+    [DiagnosticSeverity.Information]: typescript.DiagnosticCategory.Suggestion,
+    [DiagnosticSeverity.Hint]: typescript.DiagnosticCategory.Suggestion,
+  };
+}
+
+function toTextSpan(document: TextDocument, range: Range): tss.TextSpan {
+  const start = document.offsetAt(range.start);
+  return { start, length: document.offsetAt(range.end) - start };
+}
+
+function toTextChanges(document: TextDocument, edits: TextEdit[]): tss.TextChange[] {
+  return edits.map((edit) => ({ span: toTextSpan(document, edit.range), newText: edit.newText }));
+}
+
+// tsserver has no snippets, the placeholders are left out
+function stripSnippet(text: string): string {
+  return text.replace(
+    /\$(?:\d+|\{\d+(?::([^}]*))?\})/g,
+    (_match, placeholder) => placeholder || ""
+  );
+}
+
+function toText(contents: Hover["contents"] | CompletionItem["documentation"]): string {
+  if (!contents) {
+    return "";
+  }
+  if (Array.isArray(contents)) {
+    return contents.map((content) => toText(content)).join("\n\n");
+  }
+  if (typeof contents === "string") {
+    return contents;
+  }
+  return MarkupContent.is(contents)
+    ? contents.value
+    : "```" + `${contents.language}\n${contents.value}\n` + "```";
+}
+
+function toCompletionEntry(
+  document: TextDocument,
+  item: CompletionItem,
+  entryKinds: { [kind: number]: tss.ScriptElementKind },
+  unknownKind: tss.ScriptElementKind
+): tss.CompletionEntry {
+  const edit = item.textEdit;
+  const insertText = edit ? edit.newText : item.insertText;
+  return {
+    name: item.label,
+    kind: (item.kind && entryKinds[item.kind]) || unknownKind,
+    kindModifiers: "",
+    sortText: item.sortText || item.label,
+    insertText: insertText !== undefined ? stripSnippet(insertText) : undefined,
+    replacementSpan: edit ? toTextSpan(document, edit.range) : undefined,
+  };
+}
+
+function toDiagnostic(
+  document: TextDocument,
+  sourceFile: tss.SourceFile | undefined,
+  diagnostic: Diagnostic,
+  diagnosticCategories: { [severity: number]: tss.DiagnosticCategory }
+): tss.Diagnostic {
+  const { start, length } = toTextSpan(document, diagnostic.range);
+  return {
+    file: sourceFile,
+    start,
+    length,
+    messageText: diagnostic.message,
+    category: diagnosticCategories[diagnostic.severity || DiagnosticSeverity.Error],
+    code: styledJsxErrorCode,
+    source: "styled-jsx",
+  };
+}
+
+// The CSS service answers with commands that carry their edits
+function toCodeFix(
+  document: TextDocument,
+  fileName: string,
+  action: Command | CodeAction
+): tss.CodeFixAction | undefined {
+  let edits: TextEdit[] | undefined;
+  if (Command.is(action)) {
+    edits = action.arguments && action.arguments[2];
+  } else if (action.edit && action.edit.changes) {
+    edits = action.edit.changes[document.uri];
+  }
+  if (!edits || edits.length === 0) {
+    return undefined;
+  }
+  return {
+    fixName: "styledJsx",
+    description: action.title,
+    changes: [{ fileName, textChanges: toTextChanges(document, edits) }],
+  };
+}
+
+function init(modules: { typescript: typeof tss }): tss.server.PluginModule {
+  const typescript = modules.typescript;
+  const entryKinds = getEntryKinds(typescript);
+  const diagnosticCategories = getDiagnosticCategories(typescript);
+  // the settings of each project, from its tsconfig.json
+  const projects: { service: StyledJsxLanguageService; settings: StyledJsxSettings }[] = [];
+
+  function create(info: tss.server.PluginCreateInfo): tss.LanguageService {
+    const languageService = info.languageService;
+    const settings = mergeSettings(info.config, defaultSettings);
+
+    const documents: { [fileName: string]: { scriptVersion: string; document: TextDocument } } = {};
+    const fileNames: { [uri: string]: string } = {};
+
+    const getDocument = (fileName: string): TextDocument | undefined => {
+      const snapshot = info.languageServiceHost.getScriptSnapshot(fileName);
+      const languageId = getLanguageId(fileName);
+      if (!snapshot || !languageId) {
+        return undefined;
+      }
+      const scriptVersion = info.languageServiceHost.getScriptVersion(fileName);
+      const cached = documents[fileName];
+      if (cached && cached.scriptVersion === scriptVersion) {
+        return cached.document;
+      }
+      const document = TextDocument.create(
+        pathToFileURL(fileName).href,
+        languageId,
+        cached ? cached.document.version + 1 : 0,
+        snapshot.getText(0, snapshot.getLength())
+      );
+      documents[fileName] = { scriptVersion, document };
+      fileNames[document.uri] = fileName;
+      return document;
+    };
+
+    const getSourceFile = (fileName: string): tss.SourceFile | undefined => {
+      const program = languageService.getProgram();
+      return program && program.getSourceFile(fileName);
+    };
+
+    const service = getStyledJsxLanguageService({
+      // the nodes of the program have the kinds of this TypeScript, not of the bundled one
+      typescript: (typescript as unknown) as typeof ts,
+      getSourceFile: (document) => {
+        const program = languageService.getProgram();
+        const sourceFile = program && program.getSourceFile(fileNames[document.uri]);
+        if (!program || !sourceFile) {
+          return undefined;
+        }
+        // binding sets the parents of the nodes, creating the checker binds the program
+        const [statement] = sourceFile.statements;
+        if (statement && !statement.parent) {
+          program.getTypeChecker();
+        }
+        return (sourceFile as unknown) as ts.SourceFile;
+      },
+    });
+    service.configure(settings);
+    const project = { service, settings };
+    projects.push(project);
+
+    // the items of the last completion, for their details
+    let lastCompletion: { fileName: string; position: number; items: CompletionItem[] } | undefined;
+
+    return {
+      ...languageService,
+
+      getCompletionsAtPosition(fileName, position, options) {
+        const prior = languageService.getCompletionsAtPosition(fileName, position, options);
+        const document = getDocument(fileName);
+        const list = document && service.doComplete(document, document.positionAt(position));
+        if (!document || !list || list.items.length === 0) {
+          return prior;
+        }
+        lastCompletion = { fileName, position, items: list.items };
+        const entries = list.items.map((item) =>
+          toCompletionEntry(document, item, entryKinds, typescript.ScriptElementKind.unknown)
+        );
+        return prior
+          ? { ...prior, entries: prior.entries.concat(entries) }
+          : {
+              isGlobalCompletion: false,
+              isMemberCompletion: false,
+              isNewIdentifierLocation: false,
+              entries,
+            };
+      },
+
+      getCompletionEntryDetails(fileName, position, name, formatOptions, source, preferences) {
+        const item =
+          lastCompletion &&
+          lastCompletion.fileName === fileName &&
+          lastCompletion.position === position
+            ? lastCompletion.items.find((candidate) => candidate.label === name)
+            : undefined;
+        if (!item) {
+          return languageService.getCompletionEntryDetails(
+            fileName,
+            position,
+            name,
+            formatOptions,
+            source,
+            preferences
+          );
+        }
+        return {
+          name,
+          kind: (item.kind && entryKinds[item.kind]) || typescript.ScriptElementKind.unknown,
+          kindModifiers: "",
+          displayParts: item.detail ? [{ kind: "text", text: item.detail }] : [],
+          documentation: item.documentation
+            ? [{ kind: "text", text: toText(item.documentation) }]
+            : undefined,
+        };
+      },
+
+      // TypeScript's own quick info wins, the interpolations are its expressions
+      getQuickInfoAtPosition(fileName, position) {
+        const prior = languageService.getQuickInfoAtPosition(fileName, position);
+        const document = getDocument(fileName);
+        const hover =
+          !prior && document && service.doHover(document, document.positionAt(position));
+        if (!document || !hover) {
+          return prior;
+        }
+        return {
+          kind: typescript.ScriptElementKind.string,
+          kindModifiers: "",
+          textSpan: hover.range
+            ? toTextSpan(document, hover.range)
+            : { start: position, length: 0 },
+          displayParts: [],
+          documentation: [{ kind: "text", text: toText(hover.contents) }],
+        };
+      },
+
+      getSemanticDiagnostics(fileName) {
+        const prior = languageService.getSemanticDiagnostics(fileName);
+        const document = getDocument(fileName);
+        if (!document) {
+          return prior;
+        }
+        const sourceFile = getSourceFile(fileName);
+        return prior.concat(
+          service
+            .doValidation(document)
+            .map((diagnostic) =>
+              toDiagnostic(document, sourceFile, diagnostic, diagnosticCategories)
+            )
+        );
+      },
+
+      getCodeFixesAtPosition(fileName, start, end, errorCodes, formatOptions, preferences) {
+        const prior = languageService.getCodeFixesAtPosition(
+          fileName,
+          start,
+          end,
+          errorCodes,
+          formatOptions,
+          preferences
+        );
+        const document = getDocument(fileName);
+        if (!document || errorCodes.indexOf(styledJsxErrorCode) === -1) {
+          return prior;
+        }
+        const range = Range.create(document.positionAt(start), document.positionAt(end));
+        const diagnostics = service
+          .doValidation(document)
+          .filter(
+            (diagnostic) =>
+              document.offsetAt(diagnostic.range.start) <= end &&
+              document.offsetAt(diagnostic.range.end) >= start
+          );
+        const actions =
+          service.doCodeActions(document, range, {
+            diagnostics,
+            only: [CodeActionKind.QuickFix],
+          }) || [];
+        const fixes: tss.CodeFixAction[] = [];
+        for (const action of actions) {
+          const fix = toCodeFix(document, fileName, action);
+          if (fix) {
+            fixes.push(fix);
+          }
+        }
+        return prior.concat(fixes);
+      },
+
+      dispose() {
+        projects.splice(projects.indexOf(project), 1);
+        service.dispose();
+        languageService.dispose();
+      },
+    };
+  }
+
+  return {
+    create,
+    // configurePlugin requests from the editor, over the settings of each project
+    onConfigurationChanged(config: StyledJsxSettings) {
+      for (const project of projects) {
+        project.service.configure(mergeSettings(config, project.settings));
+      }
+    },
+  };
+}
+
+export = init;
@@ -0,0 +1,360 @@
+/* eslint-disable no-unused-vars */
+import * as ts from "typescript";
+import * as path from "path";
+import { fileURLToPath } from "url";
+import { Hover, Position, Range } from "vscode-languageserver";
+import { TextDocument } from "vscode-languageserver-textdocument";
+import { ColorInformation } from "vscode-css-languageservice";
+import { StyledJsxTaggedTemplate, StyledJsxInterpolation } from "./styled-jsx-utils";
+
+// Looks up the types and literal values of interpolations with a TypeScript
+// language service over the tsconfig.json or jsconfig.json of each document
+export interface InterpolationResolver {
+  resolveInterpolations(document: TextDocument, templates: StyledJsxTaggedTemplate[]): void;
+  onDocumentRemoved(document: TextDocument): void;
+  // config files have changed
+  reset(): void;
+  dispose(): void;
+}
+
+interface Project {
+  fileNames: string[];
+  options: ts.CompilerOptions;
+  service: ts.LanguageService;
+}
+
+// Used for files outside of any project
+function getDefaultCompilerOptions(typescript: typeof ts): ts.CompilerOptions {
+  return {
+    allowJs: true,
+    jsx: typescript.JsxEmit.Preserve,
+    target: typescript.ScriptTarget.Latest,
+    module: typescript.ModuleKind.ESNext,
+    moduleResolution: typescript.ModuleResolutionKind.NodeJs,
+    allowSyntheticDefaultImports: true,
+    noEmit: true,
+  };
+}
+
+function getFileName(document: TextDocument): string | undefined {
+  try {
+    return fileURLToPath(document.uri).replace(/\\/g, "/");
+  } catch (e) {
+    // not a file on disk
+    return undefined;
+  }
+}
+
+function findConfigFile(typescript: typeof ts, fileName: string): string | undefined {
+  const directory = path.dirname(fileName);
+  return (
+    typescript.findConfigFile(directory, typescript.sys.fileExists, "tsconfig.json") ||
+    typescript.findConfigFile(directory, typescript.sys.fileExists, "jsconfig.json")
+  );
+}
+
+function unwrapExpression(typescript: typeof ts, node: ts.Expression): ts.Expression {
+  while (typescript.isParenthesizedExpression(node) || typescript.isAsExpression(node)) {
+    node = node.expression;
+  }
+  return node;
+}
+
+function getLiteralText(
+  typescript: typeof ts,
+  node: ts.Expression | undefined
+): string | undefined {
+  if (!node) {
+    return undefined;
+  }
+  node = unwrapExpression(typescript, node);
+  if (typescript.isStringLiteral(node) || typescript.isNoSubstitutionTemplateLiteral(node)) {
+    return node.text;
+  }
+  if (typescript.isNumericLiteral(node)) {
+    return String(Number(node.text));
+  }
+  if (
+    typescript.isPrefixUnaryExpression(node) &&
+    node.operator === typescript.SyntaxKind.MinusToken &&
+    typescript.isNumericLiteral(node.operand)
+  ) {
+    return String(-Number(node.operand.text));
+  }
+  return undefined;
+}
+
+// { colors: { primary: "#f00" } } nested in the initializer of a const
+function isInConstObject(typescript: typeof ts, node: ts.Node): boolean {
+  let current: ts.Node = node.parent;
+  while (
+    typescript.isObjectLiteralExpression(current) ||
+    typescript.isPropertyAssignment(current) ||
+    typescript.isParenthesizedExpression(current) ||
+    typescript.isAsExpression(current)
+  ) {
+    current = current.parent;
+  }
+  return (
+    typescript.isVariableDeclaration(current) &&
+    (typescript.getCombinedNodeFlags(current) & typescript.NodeFlags.Const) !== 0
+  );
+}
+
+// The initializer of a const, or of a property of an object declared as const,
+// for values that the type checker widens to string or number
+function getDeclaredValue(
+  typescript: typeof ts,
+  checker: ts.TypeChecker,
+  node: ts.Expression
+): string | undefined {
+  let symbol = checker.getSymbolAtLocation(
+    typescript.isPropertyAccessExpression(node) ? node.name : node
+  );
+  if (symbol && symbol.flags & typescript.SymbolFlags.Alias) {
+    symbol = checker.getAliasedSymbol(symbol);
+  }
+  const declaration = symbol && symbol.valueDeclaration;
+  if (!declaration) {
+    return undefined;
+  }
+  if (
+    typescript.isVariableDeclaration(declaration) &&
+    (typescript.getCombinedNodeFlags(declaration) & typescript.NodeFlags.Const) !== 0
+  ) {
+    return getLiteralText(typescript, declaration.initializer);
+  }
+  if (typescript.isPropertyAssignment(declaration) && isInConstObject(typescript, declaration)) {
+    return getLiteralText(typescript, declaration.initializer);
+  }
+  return undefined;
+}
+
+function getTypeValue(type: ts.Type): string | undefined {
+  if (type.isStringLiteral()) {
+    return type.value;
+  }
+  if (type.isNumberLiteral()) {
+    return String(type.value);
+  }
+  return undefined;
+}
+
+function findExpression(
+  typescript: typeof ts,
+  sourceFile: ts.SourceFile,
+  interpolation: StyledJsxInterpolation
+): ts.Expression | undefined {
+  let result: ts.Expression | undefined;
+  const visit = (node: ts.Node) => {
+    if (
+      result ||
+      node.getStart(sourceFile) > interpolation.start ||
+      node.getEnd() < interpolation.end
+    ) {
+      return;
+    }
+    const span = typescript.isTemplateExpression(node)
+      ? node.templateSpans.find(
+          (item) =>
+            item.expression.getStart(sourceFile) > interpolation.start &&
+            item.expression.getEnd() < interpolation.end
+        )
+      : undefined;
+    if (span) {
+      result = span.expression;
+      return;
+    }
+    typescript.forEachChild(node, visit);
+  };
+  visit(sourceFile);
+  return result;
+}
+
+function resolveInterpolation(
+  typescript: typeof ts,
+  checker: ts.TypeChecker,
+  sourceFile: ts.SourceFile,
+  interpolation: StyledJsxInterpolation
+): void {
+  const expression = findExpression(typescript, sourceFile, interpolation);
+  if (!expression) {
+    return;
+  }
+  const type = checker.getTypeAtLocation(expression);
+  interpolation.type = checker.typeToString(type);
+  const value = getTypeValue(type);
+  interpolation.value =
+    value !== undefined ? value : getDeclaredValue(typescript, checker, expression);
+}
+
+export function getInterpolationResolver(typescript: typeof ts): InterpolationResolver {
+  let projects: { [configFile: string]: Project } = {};
+  const openDocuments: { [fileName: string]: TextDocument } = {};
+
+  const disposeProjects = (): void => {
+    for (const key of Object.keys(projects)) {
+      projects[key].service.dispose();
+    }
+    projects = {};
+  };
+
+  const createProject = (configFile: string | undefined): Project => {
+    let fileNames: string[] = [];
+    let options: ts.CompilerOptions = getDefaultCompilerOptions(typescript);
+    if (configFile) {
+      const { config } = typescript.readConfigFile(configFile, typescript.sys.readFile);
+      const parsed = typescript.parseJsonConfigFileContent(
+        config || {},
+        typescript.sys,
+        path.dirname(configFile),
+        undefined,
+        configFile
+      );
+      fileNames = parsed.fileNames;
+      options = { ...parsed.options, noEmit: true };
+    }
+    const host: ts.LanguageServiceHost = {
+      getScriptFileNames: () => project.fileNames,
+      getScriptVersion: (fileName) => {
+        const document: TextDocument | undefined = openDocuments[fileName];
+        if (document) {
+          return `open:${document.version}`;
+        }
+        // files that aren't open are read again when they change on disk
+        const modified = typescript.sys.getModifiedTime && typescript.sys.getModifiedTime(fileName);
+        return modified ? String(modified.getTime()) : "";
+      },
+      getScriptSnapshot: (fileName) => {
+        const document: TextDocument | undefined = openDocuments[fileName];
+        const text = document ? document.getText() : typescript.sys.readFile(fileName);
+        return text !== undefined ? typescript.ScriptSnapshot.fromString(text) : undefined;
+      },
+      getCurrentDirectory: () =>
+        configFile ? path.dirname(configFile) : typescript.sys.getCurrentDirectory(),
+      getCompilationSettings: () => project.options,
+      getDefaultLibFileName: (compilerOptions) => typescript.getDefaultLibFilePath(compilerOptions),
+      fileExists: typescript.sys.fileExists,
+      readFile: typescript.sys.readFile,
+      readDirectory: typescript.sys.readDirectory,
+      directoryExists: typescript.sys.directoryExists,
+      getDirectories: typescript.sys.getDirectories,
+    };
+    const project: Project = {
+      fileNames,
+      options,
+      service: typescript.createLanguageService(host, typescript.createDocumentRegistry()),
+    };
+    return project;
+  };
+
+  const getProject = (fileName: string): Project => {
+    const configFile = findConfigFile(typescript, fileName);
+    const key = configFile || "";
+    let project: Project | undefined = projects[key];
+    if (!project) {
+      project = createProject(configFile);
+      projects[key] = project;
+    }
+    // excluded from the config, or outside of any
+    if (project.fileNames.indexOf(fileName) === -1) {
+      project.fileNames = project.fileNames.concat(fileName);
+    }
+    return project;
+  };
+
+  return {
+    resolveInterpolations(document: TextDocument, templates: StyledJsxTaggedTemplate[]): void {
+      const fileName = getFileName(document);
+      if (!fileName || templates.every((template) => template.interpolations.length === 0)) {
+        return;
+      }
+      openDocuments[fileName] = document;
+      const program = getProject(fileName).service.getProgram();
+      const sourceFile = program && program.getSourceFile(fileName);
+      if (!program || !sourceFile) {
+        return;
+      }
+      const checker = program.getTypeChecker();
+      for (const template of templates) {
+        for (const interpolation of template.interpolations) {
+          resolveInterpolation(typescript, checker, sourceFile, interpolation);
+        }
+      }
+    },
+    onDocumentRemoved(document: TextDocument): void {
+      const fileName = getFileName(document);
+      if (fileName) {
+        delete openDocuments[fileName];
+      }
+    },
+    reset(): void {
+      disposeProjects();
+    },
+    dispose(): void {
+      disposeProjects();
+      for (const fileName of Object.keys(openDocuments)) {
+        delete openDocuments[fileName];
+      }
+    },
+  };
+}
+
+function findInterpolationAt(
+  templates: StyledJsxTaggedTemplate[],
+  offset: number
+): StyledJsxInterpolation | undefined {
+  for (const template of templates) {
+    const interpolation = template.interpolations.find(
+      (item) => item.start <= offset && offset < item.end
+    );
+    if (interpolation) {
+      return interpolation;
+    }
+  }
+  return undefined;
+}
+
+// The type of the interpolation under the cursor, and its value when known
+export function doInterpolationHover(
+  document: TextDocument,
+  templates: StyledJsxTaggedTemplate[],
+  position: Position
+): Hover | null {
+  const interpolation = findInterpolationAt(templates, document.offsetAt(position));
+  if (!interpolation || interpolation.type === undefined) {
+    return null;
+  }
+  const expression = document.getText().slice(interpolation.start + 2, interpolation.end - 1);
+  let value = "```typescript\n" + `${expression.trim()}: ${interpolation.type}\n` + "```";
+  if (interpolation.value !== undefined) {
+    value += `\n\nResolves to \`${interpolation.value}\``;
+  }
+  return {
+    contents: { kind: "markdown", value },
+    range: Range.create(
+      document.positionAt(interpolation.start),
+      document.positionAt(interpolation.end)
+    ),
+  };
+}
+
+// Colors found in resolved values cover the whole interpolation
+export function getInterpolationColors(
+  document: TextDocument,
+  templates: StyledJsxTaggedTemplate[],
+  colors: ColorInformation[]
+): ColorInformation[] {
+  return colors.map((color) => {
+    const interpolation = findInterpolationAt(templates, document.offsetAt(color.range.start));
+    return interpolation
+      ? {
+          ...color,
+          range: Range.create(
+            document.positionAt(interpolation.start),
+            document.positionAt(interpolation.end)
+          ),
+        }
+      : color;
+  });
+}
@@ -0,0 +1,185 @@
+/* eslint-disable no-unused-vars */
+import * as ts from "typescript";
+import { Diagnostic, DiagnosticSeverity } from "vscode-languageserver";
+import { TextDocument } from "vscode-languageserver-textdocument";
+import { LintSettings } from "vscode-css-languageservice";
+import {
+  StyledJsx,
+  StyledJsxTaggedTemplate,
+  getComponentNode,
+  isInInterpolation,
+} from "./styled-jsx-utils";
+import {
+  findClassNameAttributes,
+  findClassSelectors,
+  ClassNameAttribute,
+} from "./styled-jsx-class-names";
+import { asCssNode, walkCssNodes, NodeType } from "./css-nodes";
+import {
+  unusedSelectorRule,
+  undefinedClassNameRule,
+  getSeverity,
+  createDiagnostic,
+} from "./styled-jsx-rules";
+
+// What the JSX of a component can match
+interface ComponentUsage {
+  tagNames: { [name: string]: boolean };
+  classNames: { [name: string]: boolean };
+  attributes: ClassNameAttribute[];
+  // some class names are only known at runtime
+  dynamic: boolean;
+}
+
+function getComponentUsage(
+  typescript: typeof ts,
+  component: ts.Node,
+  attributes: ClassNameAttribute[]
+): ComponentUsage {
+  const usage: ComponentUsage = { tagNames: {}, classNames: {}, attributes: [], dynamic: false };
+
+  const visit = (node: ts.Node) => {
+    if (typescript.isJsxOpeningElement(node) || typescript.isJsxSelfClosingElement(node)) {
+      const tagName = node.tagName.getText();
+      // styled-jsx only scopes intrinsic elements
+      if (/^[a-z][\w-]*$/.test(tagName)) {
+        usage.tagNames[tagName] = true;
+        if (node.attributes.properties.some((prop) => typescript.isJsxSpreadAttribute(prop))) {
+          // {...props} may carry a className
+          usage.dynamic = true;
+        }
+      }
+    }
+    typescript.forEachChild(node, visit);
+  };
+  visit(component);
+
+  for (const attribute of attributes) {
+    if (attribute.start >= component.getStart() && attribute.end <= component.getEnd()) {
+      usage.attributes.push(attribute);
+      usage.dynamic = usage.dynamic || attribute.dynamic;
+      for (const item of attribute.usages) {
+        usage.classNames[item.name] = true;
+      }
+    }
+  }
+  return usage;
+}
+
+function findUnusedSelectors(
+  document: TextDocument,
+  styledJsx: StyledJsx,
+  template: StyledJsxTaggedTemplate,
+  usage: ComponentUsage,
+  severity: DiagnosticSeverity
+): Diagnostic[] {
+  const diagnostics: Diagnostic[] = [];
+
+  walkCssNodes(asCssNode(styledJsx.stylesheet), (node) => {
+    if (node.end < template.start || node.offset > template.end) {
+      return false;
+    }
+    // :global(), :not() and friends can match anything
+    if (node.type === NodeType.PseudoSelector) {
+      return false;
+    }
+
+    const text = node.getText();
+    const unused =
+      (node.type === NodeType.ClassSelector &&
+        !usage.dynamic &&
+        !usage.classNames[text.slice(1)]) ||
+      (node.type === NodeType.ElementNameSelector && text !== "*" && !usage.tagNames[text]);
+    if (unused && !isInInterpolation(styledJsx.styledJsxTaggedTemplates, node.offset, node.end)) {
+      diagnostics.push(
+        createDiagnostic(
+          document,
+          node.offset,
+          node.end,
+          `Selector '${text}' does not match any element in this component`,
+          unusedSelectorRule,
+          severity
+        )
+      );
+    }
+    return true;
+  });
+
+  return diagnostics;
+}
+
+function findUndefinedClassNames(
+  document: TextDocument,
+  usage: ComponentUsage,
+  definedClassNames: { [name: string]: boolean },
+  severity: DiagnosticSeverity
+): Diagnostic[] {
+  const diagnostics: Diagnostic[] = [];
+  for (const attribute of usage.attributes) {
+    for (const item of attribute.usages) {
+      if (!definedClassNames[item.name]) {
+        diagnostics.push(
+          createDiagnostic(
+            document,
+            item.start,
+            item.end,
+            `Class '${item.name}' is not defined by any rule in this file`,
+            undefinedClassNameRule,
+            severity
+          )
+        );
+      }
+    }
+  }
+  return diagnostics;
+}
+
+// Compares the JSX of each component with its <style jsx> styles
+export function doUsageValidation(
+  typescript: typeof ts,
+  document: TextDocument,
+  styledJsx: StyledJsx,
+  lint: LintSettings | undefined,
+  // classes that other files emit globally
+  globalClassNames: string[] = []
+): Diagnostic[] {
+  const unusedSelectorSeverity = getSeverity(unusedSelectorRule, lint);
+  const undefinedClassNameSeverity = getSeverity(undefinedClassNameRule, lint);
+  const attributes = findClassNameAttributes(typescript, styledJsx.sourceFile);
+  const definedClassNames: { [name: string]: boolean } = {};
+  for (const selector of findClassSelectors(styledJsx)) {
+    definedClassNames[selector.name] = true;
+  }
+  for (const name of globalClassNames) {
+    definedClassNames[name] = true;
+  }
+
+  const diagnostics: Diagnostic[] = [];
+  const checkedComponents: ts.Node[] = [];
+
+  for (const template of styledJsx.styledJsxTaggedTemplates) {
+    if (template.kind !== "style") {
+      continue;
+    }
+    const component = getComponentNode(typescript, template.node);
+    if (!component) {
+      continue;
+    }
+    const usage = getComponentUsage(typescript, component, attributes);
+
+    if (!template.global && unusedSelectorSeverity) {
+      diagnostics.push(
+        ...findUnusedSelectors(document, styledJsx, template, usage, unusedSelectorSeverity)
+      );
+    }
+
+    if (undefinedClassNameSeverity && checkedComponents.indexOf(component) === -1) {
+      checkedComponents.push(component);
+      diagnostics.push(
+        ...findUndefinedClassNames(document, usage, definedClassNames, undefinedClassNameSeverity)
+      );
+    }
+  }
+
+  return diagnostics;
+}
@@ -1,35 +1,195 @@
 /* eslint-disable indent */
 /* eslint-disable no-unused-vars */
 import * as ts from "typescript";
-import { TextDocument } from "vscode-languageserver";
+import { TextDocument } from "vscode-languageserver-textdocument";
 import { Stylesheet } from "vscode-css-languageservice";
-import { LanguageModelCache } from "./language-model-cache";
+import { StyledJsxDialect } from "./styled-jsx-settings";
+
+// where an interpolation sits decides what it is replaced with in the CSS document
+export type StyledJsxInterpolationKind = "value" | "selector" | "property" | "declaration";
+
+export interface StyledJsxInterpolation {
+  // offsets of `${` and of the character after the closing `}`
+  start: number;
+  end: number;
+  kind: StyledJsxInterpolationKind;
+  // the type of the expression, and its value when it is a known string or number
+  type?: string;
+  value?: string;
+}
+
+// <style jsx>, css``, css.global`` or css.resolve``
+export type StyledJsxTemplateKind = "style" | "css" | "resolve";
 
 export interface StyledJsxTaggedTemplate {
   start: number;
   end: number;
+  interpolations: StyledJsxInterpolation[];
+  kind: StyledJsxTemplateKind;
+  // <style jsx global> and css.global are not scoped to the component
+  global: boolean;
+  node: ts.TemplateExpression | ts.NoSubstitutionTemplateLiteral;
 }
 
 export interface StyledJsx {
   cssDocument: TextDocument;
   stylesheet: Stylesheet;
+  styledJsxTaggedTemplates: StyledJsxTaggedTemplate[];
+  // the host document the templates were found in
+  sourceFile: ts.SourceFile;
+}
+
+export interface StyledJsxOptions {
+  // tags of tagged templates that hold styled-jsx CSS, besides the imported ones
+  tags?: string[];
+  // modules that re-export styled-jsx/css
+  modules?: string[];
+  // language ID of the CSS document
+  dialect?: StyledJsxDialect;
+}
+
+// How a local name tags styled-jsx templates: as the default export of styled-jsx/css,
+// as its global or resolve member, or as the whole module
+export type StyledJsxTagKind = "css" | "global" | "resolve" | "namespace";
+
+export interface StyledJsxTags {
+  [localName: string]: StyledJsxTagKind;
+}
+
+const styledJsxModule = "styled-jsx/css";
+
+const styleElementPattern = "<\\s*?style\\s*?(global)?\\s*?jsx\\s*?(global)?\\s*?>";
+
+function getStyledJsxModules(options: StyledJsxOptions): string[] {
+  return [styledJsxModule].concat(options.modules || []);
 }
 
-const styledJsxPattern = /((<\s*?style\s*?(global)?\s*?jsx\s*?(global)?\s*?>)|(\s*?css\s*?`)|(\s*?css\.global\s*?`)|(\s*?css\.resolve\s*?`))/g;
-export function getApproximateStyledJsxOffsets(document: TextDocument): number[] {
+function getImportedName(name: string): StyledJsxTagKind | undefined {
+  switch (name) {
+    case "default":
+      return "css";
+    case "global":
+    case "resolve":
+      return name;
+    default:
+      return undefined;
+  }
+}
+
+function addOptionTags(tags: StyledJsxTags, options: StyledJsxOptions): StyledJsxTags {
+  for (const tag of options.tags || []) {
+    tags[tag] = tags[tag] || "css";
+  }
+  return tags;
+}
+
+// The tags a file imports, read from its source text for the quick pre-check
+function getApproximateStyledJsxTags(text: string, options: StyledJsxOptions): StyledJsxTags {
+  const tags: StyledJsxTags = {};
+  const modules = getStyledJsxModules(options);
+  const importPattern = /import\s+([\w$\s{},*]+?)\s+from\s*["']([^"']+)["']/g;
+  let match: RegExpExecArray | null;
+
+  while ((match = importPattern.exec(text))) {
+    if (modules.indexOf(match[2]) === -1) {
+      continue;
+    }
+    const clause = match[1];
+    const namespace = /\*\s*as\s+([\w$]+)/.exec(clause);
+    if (namespace) {
+      tags[namespace[1]] = "namespace";
+    }
+    const defaultImport = /^\s*([\w$]+)\s*(,|$)/.exec(clause);
+    if (defaultImport) {
+      tags[defaultImport[1]] = "css";
+    }
+    const named = /{([^}]*)}/.exec(clause);
+    for (const specifier of named ? named[1].split(",") : []) {
+      const [name, localName = name] = specifier.trim().split(/\s+as\s+/);
+      const kind = getImportedName(name);
+      if (kind && localName) {
+        tags[localName] = kind;
+      }
+    }
+  }
+  return addOptionTags(tags, options);
+}
+
+// The tags the import declarations of a file bring in under their local names
+export function getStyledJsxTags(
+  typescript: typeof ts,
+  sourceFile: ts.SourceFile,
+  options: StyledJsxOptions = {}
+): StyledJsxTags {
+  const tags: StyledJsxTags = {};
+  const modules = getStyledJsxModules(options);
+
+  for (const statement of sourceFile.statements) {
+    if (
+      !typescript.isImportDeclaration(statement) ||
+      !typescript.isStringLiteral(statement.moduleSpecifier) ||
+      modules.indexOf(statement.moduleSpecifier.text) === -1 ||
+      !statement.importClause
+    ) {
+      continue;
+    }
+    const { name, namedBindings } = statement.importClause;
+    if (name) {
+      tags[name.text] = "css";
+    }
+    if (namedBindings && typescript.isNamespaceImport(namedBindings)) {
+      tags[namedBindings.name.text] = "namespace";
+    } else if (namedBindings) {
+      for (const element of namedBindings.elements) {
+        const kind = getImportedName((element.propertyName || element.name).text);
+        if (kind) {
+          tags[element.name.text] = kind;
+        }
+      }
+    }
+  }
+  return addOptionTags(tags, options);
+}
+
+function escapeRegExp(text: string): string {
+  return text.replace(/[.*+?^${}()|[\]\\]/g, "\\$&");
+}
+
+function getStyledJsxPattern(tags: StyledJsxTags): RegExp {
+  const tagPatterns = Object.keys(tags).map((name) => {
+    const kind = tags[name];
+    const members =
+      kind === "css"
+        ? "(\\.(global|resolve))?"
+        : kind === "namespace"
+        ? "\\.(default|global|resolve)"
+        : "";
+    return `${escapeRegExp(name)}${members}`;
+  });
+  const tagPattern =
+    tagPatterns.length > 0 ? `|((^|[^\\w$.])(${tagPatterns.join("|")})\\s*?\`)` : "";
+  return new RegExp(`(${styleElementPattern})${tagPattern}`, "g");
+}
+
+export function getApproximateStyledJsxOffsets(
+  document: TextDocument,
+  options: StyledJsxOptions = {}
+): number[] {
   const results = [];
   const doc = document.getText();
-  while (styledJsxPattern.exec(doc)) {
-    results.push(styledJsxPattern.lastIndex);
+  const pattern = getStyledJsxPattern(getApproximateStyledJsxTags(doc, options));
+  while (pattern.exec(doc)) {
+    results.push(pattern.lastIndex);
   }
   return results;
 }
 
 function getTemplateString(
+  typescript: typeof ts,
   node: ts.Node
 ): ts.TemplateExpression | ts.NoSubstitutionTemplateLiteral | undefined {
-  if (ts.isTemplateHead(node) || ts.isTemplateLiteral(node)) {
-    if (ts.isTemplateHead(node)) {
+  if (typescript.isTemplateHead(node) || typescript.isTemplateLiteral(node)) {
+    if (typescript.isTemplateHead(node)) {
       return node.parent;
     } else {
       return node;
@@ -39,35 +199,141 @@ function getTemplateString(
   return undefined;
 }
 
+// What a tag stands for: css``, css.global``, css.resolve`` or one of them under another name
+function getTagKind(
+  typescript: typeof ts,
+  tag: ts.Expression,
+  tags: StyledJsxTags
+): StyledJsxTagKind | undefined {
+  // extra tags from the settings may be written with dots
+  const tagKind = tags[tag.getText()];
+  if (tagKind && tagKind !== "namespace") {
+    return tagKind;
+  }
+  if (typescript.isPropertyAccessExpression(tag) && typescript.isIdentifier(tag.expression)) {
+    const kind = tags[tag.expression.text];
+    const member = getImportedName(tag.name.text);
+    if ((kind === "css" && member !== "css") || kind === "namespace") {
+      return member;
+    }
+  }
+  return undefined;
+}
+
 // css`button { position: relative; }`
 export function isStyledJsxTaggedTemplate(
-  templateNode: ts.TemplateExpression | ts.TemplateLiteral
+  typescript: typeof ts,
+  templateNode: ts.TemplateExpression | ts.TemplateLiteral,
+  tags: StyledJsxTags
 ): boolean {
   const parent = templateNode.parent;
+  return (
+    typescript.isTaggedTemplateExpression(parent) && !!getTagKind(typescript, parent.tag, tags)
+  );
+}
 
-  if (ts.isTaggedTemplateExpression(parent)) {
-    if (parent.tag.getText().includes("css")) {
-      return true;
+// Text between the interpolation and the closest `{`, `}` or `;` in the given direction,
+// skipping over other interpolations. Returns the text and the delimiter that ended it.
+function getSurroundingText(
+  text: string,
+  spans: { start: number; end: number }[],
+  from: number,
+  direction: 1 | -1
+): { text: string; delimiter: string } {
+  let result = "";
+  let i = direction === 1 ? from : from - 1;
+  while (i >= 0 && i < text.length) {
+    const span = spans.find((item) => (direction === 1 ? item.start === i : item.end === i + 1));
+    if (span) {
+      result = direction === 1 ? result + "${}" : "${}" + result;
+      i = direction === 1 ? span.end : span.start - 1;
+      continue;
     }
+    if (text[i] === "{" || text[i] === "}" || text[i] === ";") {
+      return { text: result, delimiter: text[i] };
+    }
+    result = direction === 1 ? result + text[i] : text[i] + result;
+    i += direction;
   }
+  return { text: result, delimiter: "" };
+}
 
-  return false;
+function getInterpolationKind(
+  text: string,
+  spans: { start: number; end: number }[],
+  span: { start: number; end: number }
+): StyledJsxInterpolationKind {
+  const before = getSurroundingText(text, spans, span.start, -1).text.trim();
+  const after = getSurroundingText(text, spans, span.end, 1);
+  const restOfLine = after.text.split("\n")[0];
+  const opensBlock = after.delimiter === "{";
+
+  if (before === "") {
+    if (/^[-\w]*\s*:/.test(after.text) && !(opensBlock && restOfLine.includes("{"))) {
+      return "property";
+    }
+    if (opensBlock) {
+      return "selector";
+    }
+    return restOfLine.trim() === "" ? "declaration" : "property";
+  }
+  if (/^[-\w]+\s*:/.test(before) && !(opensBlock && restOfLine.includes("{"))) {
+    return "value";
+  }
+  if (opensBlock) {
+    return "selector";
+  }
+  return /^[-\w]*$/.test(before) ? "property" : "value";
 }
 
-function walk(node: ts.Node, callback: (node: ts.Node) => void): void {
+function getInterpolations(
+  typescript: typeof ts,
+  templateNode: ts.TemplateExpression | ts.NoSubstitutionTemplateLiteral
+): StyledJsxInterpolation[] {
+  if (!typescript.isTemplateExpression(templateNode)) {
+    return [];
+  }
+
+  const spans: { start: number; end: number }[] = [];
+  let previousLiteral: ts.TemplateHead | ts.TemplateMiddle = templateNode.head;
+  for (const span of templateNode.templateSpans) {
+    spans.push({
+      start: previousLiteral.getEnd() - 2,
+      end: span.literal.getStart() + 1,
+    });
+    if (typescript.isTemplateMiddle(span.literal)) {
+      previousLiteral = span.literal;
+    }
+  }
+
+  // kinds are worked out on the template content, with offsets relative to it
+  const offset = templateNode.getStart() + 1;
+  const text = templateNode.getSourceFile().text.slice(offset, templateNode.getEnd() - 1);
+  const relativeSpans = spans.map((span) => ({
+    start: span.start - offset,
+    end: span.end - offset,
+  }));
+
+  return spans.map((span, i) => ({
+    ...span,
+    kind: getInterpolationKind(text, relativeSpans, relativeSpans[i]),
+  }));
+}
+
+function walk(typescript: typeof ts, node: ts.Node, callback: (node: ts.Node) => void): void {
   if (
-    ts.isJSDoc(node) ||
-    node.kind === ts.SyntaxKind.MultiLineCommentTrivia ||
-    node.kind === ts.SyntaxKind.SingleLineCommentTrivia
+    typescript.isJSDoc(node) ||
+    node.kind === typescript.SyntaxKind.MultiLineCommentTrivia ||
+    node.kind === typescript.SyntaxKind.SingleLineCommentTrivia
   ) {
     return;
   }
 
-  if (ts.isToken(node) && node.kind !== ts.SyntaxKind.EndOfFileToken) {
+  if (typescript.isToken(node) && node.kind !== typescript.SyntaxKind.EndOfFileToken) {
     callback(node);
   } else {
     try {
-      node.forEachChild((child) => walk(child, callback));
+      node.forEachChild((child) => walk(typescript, child, callback));
     } catch (e) {
       // An error might be thrown if the scriptKind is not known
       console.log(e.stack);
@@ -75,14 +341,14 @@ function walk(node: ts.Node, callback: (node: ts.Node) => void): void {
   }
 }
 
-function isStyledJsxTemplate(node: ts.Node): boolean {
-  if (!ts.isJsxExpression(node.parent)) {
+function isStyledJsxTemplate(typescript: typeof ts, node: ts.Node): boolean {
+  if (!typescript.isJsxExpression(node.parent)) {
     return false;
   }
 
   const grandparent = node.parent.parent;
 
-  if (!ts.isJsxElement(grandparent)) {
+  if (!typescript.isJsxElement(grandparent)) {
     return false;
   }
 
@@ -101,46 +367,93 @@ function isStyledJsxTemplate(node: ts.Node): boolean {
   return false;
 }
 
-function getScriptKind(document: TextDocument): ts.ScriptKind {
+function getTemplateKind(
+  typescript: typeof ts,
+  templateNode: ts.TemplateExpression | ts.NoSubstitutionTemplateLiteral,
+  tags: StyledJsxTags
+): { kind: StyledJsxTemplateKind; global: boolean } {
+  const parent = templateNode.parent;
+  if (typescript.isTaggedTemplateExpression(parent)) {
+    const tagKind = getTagKind(typescript, parent.tag, tags);
+    return { kind: tagKind === "resolve" ? "resolve" : "css", global: tagKind === "global" };
+  }
+
+  const opener = (parent.parent as ts.JsxElement).openingElement;
+  const global = opener.attributes.properties.some(
+    (prop) => !!prop.name && prop.name.getText() === "global"
+  );
+  return { kind: "style", global };
+}
+
+// The component a node belongs to: its class, or else the closest function around it
+export function getComponentNode(typescript: typeof ts, node: ts.Node): ts.Node | undefined {
+  let component: ts.Node | undefined;
+  for (let current = node.parent; current; current = current.parent) {
+    if (typescript.isClassLike(current)) {
+      return current;
+    }
+    if (!component && typescript.isFunctionLike(current)) {
+      component = current;
+    }
+  }
+  return component;
+}
+
+function getScriptKind(typescript: typeof ts, document: TextDocument): ts.ScriptKind {
   switch (document.languageId) {
     case "typescriptreact":
-      return ts.ScriptKind.TSX;
+      return typescript.ScriptKind.TSX;
     case "typescript":
-      return ts.ScriptKind.TS;
+      return typescript.ScriptKind.TS;
     case "javascriptreact":
-      return ts.ScriptKind.JSX;
+      return typescript.ScriptKind.JSX;
     case "javascript":
-      return ts.ScriptKind.JS;
+      return typescript.ScriptKind.JS;
     default:
-      return ts.ScriptKind.Unknown;
+      return typescript.ScriptKind.Unknown;
   }
 }
 
-export function findStyledJsxTaggedTemplate(
-  textDocument: TextDocument,
-  _cursorOffsets: number[]
-): StyledJsxTaggedTemplate[] {
-  const source = ts.createSourceFile(
+export function createStyledJsxSourceFile(
+  typescript: typeof ts,
+  textDocument: TextDocument
+): ts.SourceFile {
+  return typescript.createSourceFile(
     "tmp",
     textDocument.getText(),
-    ts.ScriptTarget.Latest,
+    typescript.ScriptTarget.Latest,
     true,
-    getScriptKind(textDocument)
+    getScriptKind(typescript, textDocument)
   );
+}
 
+export function findStyledJsxTaggedTemplate(
+  typescript: typeof ts,
+  textDocument: TextDocument,
+  _cursorOffsets: number[],
+  source: ts.SourceFile = createStyledJsxSourceFile(typescript, textDocument),
+  options: StyledJsxOptions = {}
+): StyledJsxTaggedTemplate[] {
   const templates: StyledJsxTaggedTemplate[] = [];
+  const tags = getStyledJsxTags(typescript, source, options);
 
-  walk(source, (node) => {
+  walk(typescript, source, (node) => {
     const templateNode:
       | ts.TemplateExpression
       | ts.NoSubstitutionTemplateLiteral
-      | undefined = getTemplateString(node);
+      | undefined = getTemplateString(typescript, node);
 
     if (templateNode) {
-      if (isStyledJsxTaggedTemplate(templateNode) || isStyledJsxTemplate(templateNode)) {
+      if (
+        isStyledJsxTaggedTemplate(typescript, templateNode, tags) ||
+        isStyledJsxTemplate(typescript, templateNode)
+      ) {
         templates.push({
           start: templateNode.getStart() + 1,
           end: templateNode.getEnd() - 1,
+          interpolations: getInterpolations(typescript, templateNode),
+          ...getTemplateKind(typescript, templateNode, tags),
+          node: templateNode,
         });
       }
     }
@@ -149,27 +462,95 @@ export function findStyledJsxTaggedTemplate(
   return templates;
 }
 
-const expressionPattern: RegExp = /(\${.*})|(&&|\|\|)/g;
+// A resolved value in place of the interpolation, when it fits there: numbers are
+// padded with zeros to stay numbers, `${SPACING}px` becomes `0000000008px`.
+function getValueReplacement(
+  text: string,
+  interpolation: StyledJsxInterpolation
+): string | undefined {
+  const { value } = interpolation;
+  const length = text.length;
+  if (interpolation.kind !== "value" || value === undefined || text.indexOf("\n") !== -1) {
+    return undefined;
+  }
+  const number = /^(-?)(\d*\.?\d+)$/.exec(value);
+  if (number && value.length <= length) {
+    return number[1] + "0".repeat(length - value.length) + number[2];
+  }
+  if (value.length <= length && /^[^;{}`\n]*$/.test(value)) {
+    return value + " ".repeat(length - value.length);
+  }
+  return undefined;
+}
+
+// Same-length replacement for an interpolation that keeps the CSS around it valid:
+// `padding: ${x}px` becomes `padding: 0000px` and `${prop}: 0` becomes `--____: 0`.
+// Only the last line of a multi-line interpolation is filled, to keep line numbers.
+function getInterpolationPlaceholder(
+  text: string,
+  kind: StyledJsxInterpolationKind,
+  precedingCharacter: string
+): string {
+  const lastLineStart = text.lastIndexOf("\n") + 1;
+  const length = text.length - lastLineStart;
+  let placeholder: string;
+
+  switch (kind) {
+    case "value":
+      placeholder = "0".repeat(length);
+      break;
+    case "selector":
+      placeholder = "_".repeat(length);
+      break;
+    case "property":
+      // a custom property name is never reported as unknown
+      placeholder =
+        length >= 3 && !/[-\w]/.test(precedingCharacter)
+          ? "--" + "_".repeat(length - 2)
+          : "_".repeat(length);
+      break;
+    case "declaration":
+      placeholder = length >= 6 ? "--_:" + "0".repeat(length - 5) + ";" : " ".repeat(length);
+      break;
+  }
+
+  return text.slice(0, lastLineStart).replace(/./g, " ") + placeholder;
+}
+
+export function maskInterpolations(text: string, template: StyledJsxTaggedTemplate): string {
+  let result = "";
+  let offset = template.start;
+  for (const interpolation of template.interpolations) {
+    const interpolationText = text.slice(interpolation.start, interpolation.end);
+    result += text.slice(offset, interpolation.start);
+    result +=
+      getValueReplacement(interpolationText, interpolation) ||
+      getInterpolationPlaceholder(
+        interpolationText,
+        interpolation.kind,
+        text.charAt(interpolation.start - 1)
+      );
+    offset = interpolation.end;
+  }
+  return result + text.slice(offset, template.end);
+}
 
 export function replaceAllWithSpacesExceptCss(
   textDocument: TextDocument,
   styledJsxTaggedTemplates: StyledJsxTaggedTemplate[],
-  stylesheets: LanguageModelCache<Stylesheet>
-): { cssDocument: TextDocument; stylesheet: Stylesheet } {
+  parseStylesheet: (cssDocument: TextDocument) => Stylesheet,
+  sourceFile: ts.SourceFile,
+  dialect: StyledJsxDialect = "scss"
+): StyledJsx {
   const text = textDocument.getText();
   let result = "";
   // code that goes before CSS
   result += text.slice(0, styledJsxTaggedTemplates[0].start).replace(/./g, " ");
 
   for (let i = 0; i < styledJsxTaggedTemplates.length; i++) {
-    // CSS itself with dirty hacks. Maybe there is better solution.
-    // We need to find all expressions in css and replace each character of expression with space.
+    // CSS itself, with every expression replaced by a placeholder of the same length.
     // This is neccessary to preserve character count
-    result += text
-      .slice(styledJsxTaggedTemplates[i].start, styledJsxTaggedTemplates[i].end)
-      .replace(expressionPattern, (_str, p1) => {
-        return p1.replace(/./g, " ");
-      });
+    result += maskInterpolations(text, styledJsxTaggedTemplates[i]);
     // if there is several CSS parts
     if (i + 1 < styledJsxTaggedTemplates.length) {
       // code that is in between that CSS parts
@@ -185,46 +566,65 @@ export function replaceAllWithSpacesExceptCss(
 
   const cssDocument: TextDocument = TextDocument.create(
     textDocument.uri.toString(),
-    "css",
+    dialect,
     textDocument.version,
     result
   );
-  const stylesheet = stylesheets.get(cssDocument);
+  const stylesheet = parseStylesheet(cssDocument);
 
   return {
     cssDocument,
     stylesheet,
+    styledJsxTaggedTemplates,
+    sourceFile,
   };
 }
 
-export function getStyledJsx(
-  document: TextDocument,
-  stylesheets: LanguageModelCache<Stylesheet>
-): StyledJsx | undefined {
-  const styledJsxOffsets: number[] = getApproximateStyledJsxOffsets(document);
-  if (styledJsxOffsets.length > 0) {
-    const styledJsxTaggedTemplates = findStyledJsxTaggedTemplate(document, styledJsxOffsets);
+// Placeholders can't stand for every expression, so problems reported on them are dropped
+export function isInInterpolation(
+  styledJsxTaggedTemplates: StyledJsxTaggedTemplate[],
+  start: number,
+  end: number
+): boolean {
+  return styledJsxTaggedTemplates.some((template) =>
+    template.interpolations.some(
+      (interpolation) => start < interpolation.end && end > interpolation.start
+    )
+  );
+}
 
-    if (styledJsxTaggedTemplates.length > 0) {
-      return replaceAllWithSpacesExceptCss(document, styledJsxTaggedTemplates, stylesheets);
-    }
-  }
-  return undefined;
+// Problems with a resolved value are problems with the interpolation itself
+export function isInPlaceholder(
+  text: string,
+  styledJsxTaggedTemplates: StyledJsxTaggedTemplate[],
+  start: number,
+  end: number
+): boolean {
+  return styledJsxTaggedTemplates.some((template) =>
+    template.interpolations.some(
+      (interpolation) =>
+        start < interpolation.end &&
+        end > interpolation.start &&
+        getValueReplacement(text.slice(interpolation.start, interpolation.end), interpolation) ===
+          undefined
+    )
+  );
 }
 
-export function getStyledJsxUnderCursor(
+export function getStyledJsxTaggedTemplates(
+  typescript: typeof ts,
   document: TextDocument,
-  stylesheets: LanguageModelCache<Stylesheet>,
-  cursorOffset: number
-): StyledJsx | undefined {
-  const styledJsxTaggedTemplates = findStyledJsxTaggedTemplate(document, [cursorOffset]);
-
-  if (
-    styledJsxTaggedTemplates.length > 0 &&
-    styledJsxTaggedTemplates[0].start < cursorOffset &&
-    styledJsxTaggedTemplates[0].end > cursorOffset
-  ) {
-    return replaceAllWithSpacesExceptCss(document, styledJsxTaggedTemplates, stylesheets);
+  options: StyledJsxOptions = {}
+): StyledJsxTaggedTemplate[] {
+  const styledJsxOffsets: number[] = getApproximateStyledJsxOffsets(document, options);
+  if (styledJsxOffsets.length > 0) {
+    return findStyledJsxTaggedTemplate(
+      typescript,
+      document,
+      styledJsxOffsets,
+      createStyledJsxSourceFile(typescript, document),
+      options
+    );
   }
-  return undefined;
+  return [];
 }
@@ -0,0 +1,46 @@
+/* eslint-disable no-unused-vars */
+import * as ts from "typescript";
+import { Diagnostic } from "vscode-languageserver";
+import { TextDocument } from "vscode-languageserver-textdocument";
+import { LanguageService } from "vscode-css-languageservice";
+import { StyledJsx, isInPlaceholder } from "./styled-jsx-utils";
+import { StyledJsxSettings } from "./styled-jsx-settings";
+import { doUsageValidation } from "./styled-jsx-usage-validation";
+import { doStyledJsxValidation } from "./styled-jsx-lint";
+import { doLinkValidation } from "./styled-jsx-links";
+import { doVendorPrefixValidation } from "./styled-jsx-vendor-prefixes";
+
+// the CSS rules asking for the prefixes that styled-jsx adds itself
+const vendorPrefixRules: string[] = ["vendorPrefix", "compatibleVendorPrefixes"];
+
+// Everything reported for a document: the CSS validation of its templates,
+// how the styles match the JSX, the styled-jsx rules and the files they reference
+export function doValidation(
+  typescript: typeof ts,
+  document: TextDocument,
+  styledJsx: StyledJsx,
+  cssLanguageService: LanguageService,
+  settings: StyledJsxSettings | undefined,
+  globalClassNames: string[] = [],
+  vendorPrefixes: boolean = true
+): Diagnostic[] {
+  const { cssDocument, stylesheet, styledJsxTaggedTemplates } = styledJsx;
+  const lint = settings && settings.lint;
+
+  return cssLanguageService
+    .doValidation(cssDocument, stylesheet, settings)
+    .filter(
+      (diagnostic) =>
+        !(vendorPrefixes && vendorPrefixRules.indexOf(String(diagnostic.code)) !== -1) &&
+        !isInPlaceholder(
+          document.getText(),
+          styledJsxTaggedTemplates,
+          cssDocument.offsetAt(diagnostic.range.start),
+          cssDocument.offsetAt(diagnostic.range.end)
+        )
+    )
+    .concat(doUsageValidation(typescript, document, styledJsx, lint, globalClassNames))
+    .concat(doStyledJsxValidation(typescript, document, styledJsx, lint))
+    .concat(doLinkValidation(document, styledJsx, cssLanguageService, settings))
+    .concat(vendorPrefixes ? doVendorPrefixValidation(document, styledJsx, lint) : []);
+}
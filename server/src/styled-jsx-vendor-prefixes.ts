@@ -0,0 +1,224 @@
+/* eslint-disable no-unused-vars */
+import {
+  CodeAction,
+  CodeActionKind,
+  Diagnostic,
+  DiagnosticTag,
+  Range,
+  TextEdit,
+} from "vscode-languageserver";
+import { TextDocument } from "vscode-languageserver-textdocument";
+import { LintSettings } from "vscode-css-languageservice";
+import { StyledJsx, isInInterpolation } from "./styled-jsx-utils";
+import { redundantVendorPrefixRule, getSeverity, createDiagnostic } from "./styled-jsx-rules";
+import { NodeType, CssNode, asCssNode, walkCssNodes } from "./css-nodes";
+
+function prefix(prefixes: string[], name: string): string[] {
+  return prefixes.map((vendor) => `-${vendor}-${name}`);
+}
+
+// The prefixed properties stylis, the preprocessor of styled-jsx, writes before a standard one
+const prefixedProperties: { [property: string]: string[] } = {
+  flex: prefix(["webkit", "ms"], "flex"),
+  "flex-grow": ["-webkit-box-flex", "-webkit-flex-grow", "-ms-flex-positive"],
+  "flex-shrink": ["-webkit-flex-shrink", "-ms-flex-negative"],
+  "flex-basis": ["-webkit-flex-basis", "-ms-flex-preferred-size"],
+  order: ["-webkit-order", "-ms-flex-order"],
+  "justify-content": ["-webkit-box-pack", "-webkit-justify-content", "-ms-flex-pack"],
+  "align-items": ["-webkit-box-align", "-webkit-align-items", "-ms-flex-align"],
+  "align-self": ["-webkit-align-self", "-ms-flex-item-align"],
+  "align-content": ["-webkit-align-content", "-ms-flex-line-pack"],
+  appearance: prefix(["webkit", "moz"], "appearance"),
+  "user-select": prefix(["webkit", "moz", "ms"], "user-select"),
+  hyphens: prefix(["webkit", "moz", "ms"], "hyphens"),
+};
+
+for (const property of [
+  "flex-direction",
+  "flex-wrap",
+  "flex-flow",
+  "transform",
+  "transform-origin",
+  "transform-style",
+  "writing-mode",
+]) {
+  prefixedProperties[property] = prefix(["webkit", "ms"], property);
+}
+
+for (const property of [
+  "transition",
+  "transition-property",
+  "transition-duration",
+  "transition-timing-function",
+  "transition-delay",
+  "animation",
+  "animation-name",
+  "animation-duration",
+  "animation-timing-function",
+  "animation-delay",
+  "animation-iteration-count",
+  "animation-direction",
+  "animation-fill-mode",
+  "animation-play-state",
+  "columns",
+  "column-count",
+  "column-fill",
+  "column-gap",
+  "column-rule",
+  "column-span",
+  "column-width",
+  "mask",
+  "mask-clip",
+  "mask-composite",
+  "mask-image",
+  "mask-origin",
+  "mask-position",
+  "mask-repeat",
+  "mask-size",
+  "backface-visibility",
+  "box-decoration-break",
+  "clip-path",
+  "filter",
+  "text-size-adjust",
+]) {
+  prefixedProperties[property] = prefix(["webkit"], property);
+}
+
+// The prefixed values it writes before a standard value of a property
+const prefixedValues: { [property: string]: { [value: string]: string[] } } = {
+  display: {
+    flex: ["-webkit-box", "-webkit-flex", "-ms-flexbox"],
+    "inline-flex": ["-webkit-inline-box", "-webkit-inline-flex", "-ms-inline-flexbox"],
+  },
+  position: {
+    sticky: ["-webkit-sticky"],
+  },
+};
+
+interface Declaration {
+  node: CssNode;
+  property: string;
+  value: string;
+}
+
+function getDeclaration(node: CssNode): Declaration | undefined {
+  const match = /^([-\w]+)\s*:\s*([\s\S]*?)\s*(?:!\s*important\s*)?$/i.exec(node.getText());
+  return match
+    ? { node, property: match[1].toLowerCase(), value: match[2].toLowerCase() }
+    : undefined;
+}
+
+// The standard declaration of a block a prefixed one is generated from
+function findStandardDeclaration(
+  declaration: Declaration,
+  declarations: Declaration[]
+): Declaration | undefined {
+  return declarations.find((standard) => {
+    const properties = prefixedProperties[standard.property];
+    if (properties && properties.indexOf(declaration.property) !== -1) {
+      return true;
+    }
+    const values = prefixedValues[standard.property];
+    return (
+      declaration.property === standard.property &&
+      !!values &&
+      !!values[standard.value] &&
+      values[standard.value].indexOf(declaration.value) !== -1
+    );
+  });
+}
+
+// Prefixed declarations that styled-jsx adds anyway, when it adds vendor prefixes
+export function doVendorPrefixValidation(
+  document: TextDocument,
+  styledJsx: StyledJsx,
+  lint: LintSettings | undefined
+): Diagnostic[] {
+  const severity = getSeverity(redundantVendorPrefixRule, lint);
+  if (severity === undefined) {
+    return [];
+  }
+  const { stylesheet, styledJsxTaggedTemplates } = styledJsx;
+  const diagnostics: Diagnostic[] = [];
+  walkCssNodes(asCssNode(stylesheet), (node) => {
+    if (node.type !== NodeType.Declarations) {
+      return;
+    }
+    const declarations = node
+      .getChildren()
+      .filter((child) => child.type === NodeType.Declaration)
+      .map(getDeclaration)
+      .filter((declaration): declaration is Declaration => !!declaration);
+    for (const declaration of declarations) {
+      const { offset, end } = declaration.node;
+      if (declaration.property.charAt(0) !== "-" && declaration.value.charAt(0) !== "-") {
+        continue;
+      }
+      const standard = findStandardDeclaration(declaration, declarations);
+      if (!standard || isInInterpolation(styledJsxTaggedTemplates, offset, end)) {
+        continue;
+      }
+      const [prefixed, generator] =
+        declaration.property !== standard.property
+          ? [declaration.property, standard.property]
+          : [
+              `${declaration.property}: ${declaration.value}`,
+              `${standard.property}: ${standard.value}`,
+            ];
+      const diagnostic = createDiagnostic(
+        document,
+        offset,
+        end,
+        `styled-jsx already adds '${prefixed}' for '${generator}'`,
+        redundantVendorPrefixRule,
+        severity
+      );
+      diagnostic.tags = [DiagnosticTag.Unnecessary];
+      diagnostics.push(diagnostic);
+    }
+  });
+  return diagnostics;
+}
+
+// The declaration with its semicolon, and its line when nothing else is on it
+function getDeclarationRemoval(document: TextDocument, range: Range): Range {
+  const text = document.getText();
+  let start = document.offsetAt(range.start);
+  let end = document.offsetAt(range.end);
+  const semicolon = /^\s*;/.exec(text.slice(end));
+  if (semicolon) {
+    end += semicolon[0].length;
+  }
+  const lineStart = text.lastIndexOf("\n", start - 1) + 1;
+  const lineEnd = text.indexOf("\n", end);
+  if (!text.slice(lineStart, start).trim() && lineEnd !== -1 && !text.slice(end, lineEnd).trim()) {
+    start = lineStart;
+    end = lineEnd + 1;
+  } else {
+    end += /^[ \t]*/.exec(text.slice(end))![0].length;
+  }
+  return Range.create(document.positionAt(start), document.positionAt(end));
+}
+
+// Removes the redundant prefixed declarations of the diagnostics
+export function getVendorPrefixFixes(
+  document: TextDocument,
+  diagnostics: Diagnostic[]
+): CodeAction[] {
+  return diagnostics
+    .filter(
+      (diagnostic) =>
+        diagnostic.source === "styled-jsx" && diagnostic.code === redundantVendorPrefixRule.id
+    )
+    .map((diagnostic) => ({
+      title: "Remove redundant vendor prefix",
+      kind: CodeActionKind.QuickFix,
+      diagnostics: [diagnostic],
+      isPreferred: true,
+      edit: {
+        changes: {
+          [document.uri]: [TextEdit.del(getDeclarationRemoval(document, diagnostic.range))],
+        },
+      },
+    }));
+}
@@ -0,0 +1,349 @@
+/* eslint-disable no-unused-vars */
+import * as fs from "fs";
+import * as path from "path";
+import {
+  Position,
+  Range,
+  Location,
+  Hover,
+  CompletionList,
+  CompletionItem,
+  CompletionItemKind,
+  TextEdit,
+  SymbolInformation,
+  SymbolKind,
+} from "vscode-languageserver";
+import { TextDocument } from "vscode-languageserver-textdocument";
+import { StyledJsxTemplateDocument } from "./styled-jsx-document";
+import { getTemplateScope, getSelectorScope } from "./styled-jsx-scope";
+import { CssNode, NodeType, asCssNode, walkCssNodes } from "./css-nodes";
+
+// What the styles of one file make available to every other file
+export type GlobalStyleKind = "class" | "customProperty" | "keyframes";
+
+export interface GlobalStyle {
+  name: string;
+  kind: GlobalStyleKind;
+  // the value of a custom property
+  value?: string;
+  location: Location;
+}
+
+// Styles are kept by file name, whichever way the URI of a file is written
+export interface WorkspaceIndex {
+  set(fileName: string, styles: GlobalStyle[]): void;
+  remove(fileName: string): void;
+  find(kind: GlobalStyleKind, name?: string): GlobalStyle[];
+  search(query: string): GlobalStyle[];
+  clear(): void;
+}
+
+const scriptExtensions: string[] = [".js", ".jsx", ".ts", ".tsx"];
+
+export function isScriptFile(fileName: string): boolean {
+  return scriptExtensions.indexOf(path.extname(fileName)) !== -1;
+}
+
+function toLocation(cssDocument: TextDocument, start: number, end: number): Location {
+  return Location.create(
+    cssDocument.uri,
+    Range.create(cssDocument.positionAt(start), cssDocument.positionAt(end))
+  );
+}
+
+function isInGlobalPseudo(node: CssNode): boolean {
+  for (let current = node.parent; current; current = current.parent) {
+    if (current.type === NodeType.PseudoSelector && current.getText().indexOf(":global(") === 0) {
+      return true;
+    }
+  }
+  return false;
+}
+
+function getRuleset(node: CssNode): CssNode | undefined {
+  for (let current = node.parent; current; current = current.parent) {
+    if (current.type === NodeType.Ruleset) {
+      return current;
+    }
+  }
+  return undefined;
+}
+
+// Classes, custom properties and keyframes that the templates emit globally
+export function findGlobalStyles(templateDocuments: StyledJsxTemplateDocument[]): GlobalStyle[] {
+  const styles: GlobalStyle[] = [];
+  for (const templateDocument of templateDocuments) {
+    const { cssDocument, stylesheet, template } = templateDocument;
+    const templateGlobal = getTemplateScope(template).global;
+    const isGlobalAt = (offset: number): boolean => {
+      const result = getSelectorScope(templateDocument, offset);
+      return result ? result.scope.global : templateGlobal;
+    };
+
+    walkCssNodes(asCssNode(stylesheet), (node) => {
+      const text = node.getText();
+      if (node.type === NodeType.ClassSelector) {
+        // only the parts of a scoped selector inside :global() keep their class names
+        if (templateGlobal || isGlobalAt(node.offset) || isInGlobalPseudo(node)) {
+          styles.push({
+            name: text.slice(1),
+            kind: "class",
+            location: toLocation(cssDocument, node.offset, node.end),
+          });
+        }
+      } else if (node.type === NodeType.CustomPropertyDeclaration) {
+        const ruleset = getRuleset(node);
+        if (templateGlobal || (ruleset && isGlobalAt(ruleset.offset))) {
+          const colon = text.indexOf(":");
+          styles.push({
+            name: text.slice(0, colon).trim(),
+            kind: "customProperty",
+            value: text.slice(colon + 1).trim(),
+            location: toLocation(cssDocument, node.offset, node.end),
+          });
+        }
+      } else if (node.type === NodeType.Keyframe && templateGlobal) {
+        // styled-jsx renames the keyframes of scoped styles
+        const match = /^@(?:-[a-z]+-)?keyframes\s+([-\w]+)/.exec(text);
+        if (match) {
+          styles.push({
+            name: match[1],
+            kind: "keyframes",
+            location: toLocation(cssDocument, node.offset, node.offset + match[0].length),
+          });
+        }
+      }
+    });
+  }
+  return styles;
+}
+
+export function getWorkspaceIndex(): WorkspaceIndex {
+  let stylesByFile: { [fileName: string]: GlobalStyle[] } = {};
+
+  const all = (): GlobalStyle[] =>
+    Object.keys(stylesByFile).reduce(
+      (result: GlobalStyle[], fileName) => result.concat(stylesByFile[fileName]),
+      []
+    );
+
+  return {
+    set(fileName: string, styles: GlobalStyle[]): void {
+      if (styles.length > 0) {
+        stylesByFile[fileName] = styles;
+      } else {
+        delete stylesByFile[fileName];
+      }
+    },
+    remove(fileName: string): void {
+      delete stylesByFile[fileName];
+    },
+    find(kind: GlobalStyleKind, name?: string): GlobalStyle[] {
+      return all().filter(
+        (style) => style.kind === kind && (name === undefined || style.name === name)
+      );
+    },
+    search(query: string): GlobalStyle[] {
+      const lowerQuery = query.toLowerCase();
+      return all().filter((style) => style.name.toLowerCase().indexOf(lowerQuery) !== -1);
+    },
+    clear(): void {
+      stylesByFile = {};
+    },
+  };
+}
+
+// Walks the folders one file at a time, reading them asynchronously so requests are
+// answered in between
+export function scanWorkspace(
+  folders: string[],
+  indexFile: (fileName: string) => void,
+  isCancelled: () => boolean,
+  onDone: () => void
+): void {
+  const directories: string[] = folders.slice();
+  // files and directories found but not looked at yet
+  const entries: string[] = [];
+  const next = (): void => {
+    if (isCancelled()) {
+      return;
+    }
+    const entry = entries.shift();
+    if (entry !== undefined) {
+      fs.stat(entry, (error, stats) => {
+        // an error means it was removed while scanning
+        if (!error && stats.isDirectory()) {
+          directories.push(entry);
+        } else if (!error && isScriptFile(entry) && !isCancelled()) {
+          indexFile(entry);
+        }
+        next();
+      });
+      return;
+    }
+    const directory = directories.shift();
+    if (directory === undefined) {
+      onDone();
+      return;
+    }
+    fs.readdir(directory, (error, names) => {
+      for (const name of error ? [] : names) {
+        if (name !== "node_modules" && name.charAt(0) !== ".") {
+          entries.push(path.join(directory, name));
+        }
+      }
+      next();
+    });
+  };
+  setImmediate(next);
+}
+
+// A custom property inside var() or a keyframes name in an animation
+function getReferenceContext(text: string, start: number): GlobalStyleKind | undefined {
+  const before = text.slice(Math.max(0, start - 200), start);
+  if (/var\(\s*$/.test(before)) {
+    return "customProperty";
+  }
+  if (/animation(?:-name)?\s*:[^;{}]*$/.test(before)) {
+    return "keyframes";
+  }
+  return undefined;
+}
+
+function getWordRange(text: string, offset: number): { start: number; end: number } {
+  let start = offset;
+  let end = offset;
+  while (start > 0 && /[-\w]/.test(text.charAt(start - 1))) {
+    start--;
+  }
+  while (end < text.length && /[-\w]/.test(text.charAt(end))) {
+    end++;
+  }
+  return { start, end };
+}
+
+export function findGlobalStyleReference(
+  templateDocument: StyledJsxTemplateDocument,
+  position: Position
+): { kind: GlobalStyleKind; name: string; range: Range } | undefined {
+  const { cssDocument } = templateDocument;
+  const text = cssDocument.getText();
+  const { start, end } = getWordRange(text, cssDocument.offsetAt(position));
+  const name = text.slice(start, end);
+  const kind = getReferenceContext(text, start);
+  if (!name || !kind || (kind === "customProperty" && name.indexOf("--") !== 0)) {
+    return undefined;
+  }
+  return {
+    kind,
+    name,
+    range: Range.create(cssDocument.positionAt(start), cssDocument.positionAt(end)),
+  };
+}
+
+const completionKinds: { [kind: string]: CompletionItemKind } = {
+  class: CompletionItemKind.Class,
+  customProperty: CompletionItemKind.Variable,
+  keyframes: CompletionItemKind.Function,
+};
+
+function getStyleLabel(style: GlobalStyle): string {
+  switch (style.kind) {
+    case "class":
+      return `.${style.name}`;
+    case "keyframes":
+      return `@keyframes ${style.name}`;
+    default:
+      return style.name;
+  }
+}
+
+function formatStyle(style: GlobalStyle): string {
+  return style.kind === "customProperty" ? `${style.name}: ${style.value}` : getStyleLabel(style);
+}
+
+function formatLocation(location: Location): string {
+  const line = location.range.start.line + 1;
+  const name = path.posix.basename(location.uri);
+  return `[${decodeURIComponent(name)}:${line}](${location.uri}#L${line})`;
+}
+
+// Custom properties in var() and keyframes in animations, from the styles of other files
+export function doGlobalStyleComplete(
+  templateDocument: StyledJsxTemplateDocument,
+  position: Position,
+  index: WorkspaceIndex,
+  list: CompletionList
+): CompletionList {
+  const { cssDocument } = templateDocument;
+  const text = cssDocument.getText();
+  const offset = cssDocument.offsetAt(position);
+  const { start } = getWordRange(text, offset);
+  const kind = getReferenceContext(text, start);
+  if (!kind) {
+    return list;
+  }
+
+  const range = Range.create(cssDocument.positionAt(start), position);
+  const labels = list.items.map((item) => item.label);
+  const items: CompletionItem[] = [];
+  for (const style of index.find(kind)) {
+    if (style.location.uri === cssDocument.uri || labels.indexOf(style.name) !== -1) {
+      continue;
+    }
+    labels.push(style.name);
+    items.push({
+      label: style.name,
+      kind: completionKinds[kind],
+      detail: formatStyle(style),
+      documentation: {
+        kind: "markdown",
+        value: `Defined in ${formatLocation(style.location)}`,
+      },
+      textEdit: TextEdit.replace(range, style.name),
+    });
+  }
+  return { ...list, items: list.items.concat(items) };
+}
+
+// The definitions of a global style, with their values and where they are
+export function doGlobalStyleHover(styles: GlobalStyle[], range: Range): Hover | null {
+  if (styles.length === 0) {
+    return null;
+  }
+  return {
+    contents: {
+      kind: "markdown",
+      value: styles
+        .map(
+          (style) =>
+            "```css\n" +
+            `${formatStyle(style)}\n` +
+            "```\n" +
+            `Defined in ${formatLocation(style.location)}`
+        )
+        .join("\n\n"),
+    },
+    range,
+  };
+}
+
+const symbolKinds: { [kind: string]: SymbolKind } = {
+  class: SymbolKind.Class,
+  customProperty: SymbolKind.Variable,
+  keyframes: SymbolKind.Function,
+};
+
+export function getWorkspaceSymbols(index: WorkspaceIndex, query: string): SymbolInformation[] {
+  return index
+    .search(query)
+    .map((style) =>
+      SymbolInformation.create(
+        getStyleLabel(style),
+        symbolKinds[style.kind],
+        style.location.range,
+        style.location.uri,
+        "global"
+      )
+    );
+}